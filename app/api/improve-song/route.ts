@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import Anthropic from '@anthropic-ai/sdk';
 import { SongData, validateSongData } from '@/lib/songSchema';
+import { GROOVE_TEMPLATES } from '@/lib/grooves';
+import { AUTOMATION_PARAMETERS } from '@/lib/automation';
+import { soundBank } from '@/lib/sound-bank';
 
 const anthropic = new Anthropic({
   apiKey: process.env.ANTHROPIC_API_KEY,
@@ -42,7 +45,7 @@ export const TrackDataSchema = z.object({
   // Pattern: Array of step numbers where instrument triggers (0-2047)
   pattern: z.array(z.number().int().min(VALIDATION_CONSTRAINTS.STEP_MIN).max(VALIDATION_CONSTRAINTS.STEP_MAX)),
   
-  // Notes: Note values for melodic tracks (optional, indexed by step)
+  // Notes: Note values for melodic tracks (bass, acid, lead), one per pattern entry; melodic hits without a note are silent
   notes: z.array(z.string()).optional(),
   
   // Velocity: Per-step velocity values (optional, 0-1 range)
@@ -51,6 +54,22 @@ export const TrackDataSchema = z.object({
   // Ghost notes: Softer hit steps (optional, 0-2047 range)
   ghostNotes: z.array(z.number().int().min(VALIDATION_CONSTRAINTS.STEP_MIN).max(VALIDATION_CONSTRAINTS.STEP_MAX)).optional(),
   
+  // Gate: Per-step note length in 16th steps (optional, indexed like velocity, e.g. 0.5 for staccato, 4 for a held note)
+  gate: z.array(z.number().positive().max(128)).optional(),
+  
+  // Tie: Per-step flag holding the note through the next hit instead of playing it (optional, melodic tracks)
+  tie: z.array(z.boolean()).optional(),
+  
+  // Slide: Per-step flag gliding from this note into the next one, TB-303 style (optional, melodic tracks)
+  slide: z.array(z.boolean()).optional(),
+  
+  // Accent: Per-step flag for harder hits; on the acid track the filter also opens further (optional)
+  accent: z.array(z.boolean()).optional(),
+  
+  // Loop length: Steps before this track's pattern repeats (optional, defaults to metadata.steps)
+  // Use short odd lengths (3, 5, 7...) for polymetric phrases that drift against the bar
+  length: z.number().int().min(1).max(VALIDATION_CONSTRAINTS.STEPS_MAX).optional(),
+  
   // Mute state: Boolean indicating if track is muted
   muted: z.boolean(),
   
@@ -59,6 +78,13 @@ export const TrackDataSchema = z.object({
   
   // Synthesis: Complete synthesizer parameters (optional, for save/load)
   synthesis: z.any().optional(),
+  
+  // Preset: Sound bank preset id that replaces the built-in synth (optional), one of:
+  // ${soundBank.getAllPresets().map((preset) => `${preset.id} (${preset.category})`).join(', ')}
+  preset: z.string().optional(),
+  
+  // Preset data: Embedded definition of a user preset; copy it unchanged with its preset id
+  presetData: z.any().optional(),
 });
 
 // Main song data validation schema
@@ -75,6 +101,21 @@ export const SongDataSchema = z.object({
     format: z.string().refine(val => val === "basedrum-v1", {
       message: "Format must be 'basedrum-v1'"
     }),
+    // Groove (optional): swing delays off-beat 16ths, humanization adds subtle timing/velocity variation,
+    // grooveTemplate picks a feel and groove sets how strongly it applies
+    patternGeneration: z.object({
+      swing: z.number().min(0).max(1).optional(),
+      humanization: z.number().min(0).max(1).optional(),
+      groove: z.number().min(0).max(1).optional(),
+      grooveTemplate: z.enum([${Object.keys(GROOVE_TEMPLATES).map((name) => `'${name}'`).join(', ')}]).optional(),
+    }).optional(),
+    // Tempo changes (optional): the song reaches bpm at the start of bar, ramping from the previous point when ramp is true
+    // e.g. a buildup from 124 to 130: [{ bar: 21, bpm: 124 }, { bar: 25, bpm: 130, ramp: true }]
+    tempoMap: z.array(z.object({
+      bar: z.number().int().min(1),
+      bpm: z.number().min(VALIDATION_CONSTRAINTS.BPM_MIN).max(VALIDATION_CONSTRAINTS.BPM_MAX),
+      ramp: z.boolean().optional(),
+    })).optional(),
   }),
   
   // Effects chain settings
@@ -90,6 +131,15 @@ export const SongDataSchema = z.object({
       roomSize: z.number().min(0).max(1),
       decay: z.number().min(0).max(10),
     }),
+    // Sidechain ducking (optional): every source hit (default "kick") dips the target tracks by depth,
+    // over attack seconds, recovering over release seconds, e.g. { targets: ['bass', 'acid'], depth: 0.6, attack: 0.01, release: 0.2 }
+    sidechain: z.object({
+      source: z.string().optional(),
+      targets: z.array(z.string()),
+      depth: z.number().min(0).max(1),
+      attack: z.number().min(0).max(1),
+      release: z.number().min(0).max(2),
+    }).optional(),
   }),
   
   // Track definitions (record of track name to track data)
@@ -103,6 +153,21 @@ export const SongDataSchema = z.object({
       z.literal("all")
     ]),
   })).optional(),
+  
+  // Automation lanes (optional): move a parameter over the song through breakpoints at a step or bar
+  // target is a track name or 'master'; track parameters: ${Object.entries(AUTOMATION_PARAMETERS).filter(([, { scope }]) => scope === 'track').map(([name, { min, max }]) => `${name} (${min} to ${max})`).join(', ')}
+  // master parameters: ${Object.entries(AUTOMATION_PARAMETERS).filter(([, { scope }]) => scope === 'master').map(([name, { min, max }]) => `${name} (${min} to ${max})`).join(', ')}
+  // e.g. an acid filter opening over the second drop: { target: 'acid', parameter: 'cutoff', curve: 'exponential', points: [{ bar: 25, value: 300 }, { bar: 32, value: 6000 }] }
+  automation: z.array(z.object({
+    target: z.string(),
+    parameter: z.string(),
+    curve: z.enum(['linear', 'exponential', 'step']).optional(),
+    points: z.array(z.object({
+      step: z.number().int().min(0).optional(),
+      bar: z.number().int().min(1).optional(),
+      value: z.number(),
+    })).min(1),
+  })).optional(),
 });
 
 // Type exports for TypeScript usage
@@ -123,10 +188,10 @@ THE 10 RULES OF TECHNO (follow these religiously):
 1. **The Pulse**: The foundational and constant beat that drives the music - this is the heartbeat of techno.
 2. **Syncopation**: Rhythmic patterns that play AGAINST the main pulse to create tension and encourage dancing. NEVER use rigid quantized patterns - always add swing, off-beats, and rhythmic displacement.
 3. **Kicks**: The main drum beat - can be steady "four on the floor" OR more varied, but must have GROOVE and character.
-4. **Filling the Lows**: Add bass elements like rumbles or toms to give kick drum more depth and power.
+4. **Filling the Lows**: Add bass elements like rumbles or toms to give kick drum more depth and power. Sidechain the bass and pads to the kick (effects.sidechain) so they pump against it.
 5. **Adding a 909**: Incorporate the classic Roland TR-909 drum machine sounds - especially hi-hats with character.
-6. **Acid**: Use synthesizers (especially TB-303 style) to create squelchy, GEOMETRIC sound patterns that breathe and evolve.
-7. **Polymeter**: Use rhythmic phrases of DIFFERENT lengths to create complex and interesting grooves that don't align perfectly.
+6. **Acid**: Use synthesizers (especially TB-303 style) to create squelchy, GEOMETRIC sound patterns that breathe and evolve. Automate the acid cutoff and resonance (the automation section) so it opens and closes across the journey.
+7. **Polymeter**: Use rhythmic phrases of DIFFERENT lengths (a track's \`length\`) to create complex and interesting grooves that don't align perfectly.
 8. **Fullness and Emptiness**: Create dynamic shifts by building up layers then stripping back to basic elements.
 9. **The Nature of Techno**: Can range from light and simple to deep and spiritual - reflect the human experience.
 10. **Remember to Dance**: This is PHYSICAL music meant for MOVEMENT. Every pattern must make people want to move their bodies.
@@ -162,6 +227,8 @@ PATTERN EXPANSION:
 - Add variation every 4-8 bars to keep interest
 - Create call-and-response between instruments
 - Use velocity and ghost notes for micro-dynamics
+- Write real bass notes in the song's key that follow the harmony, not a single repeated riff
+- Give acid lines 303 phrasing with slide and accent flags, and vary gate lengths
 - Make acid melodies evolve and breathe throughout
 
 ARRANGEMENT SECTIONS:
@@ -171,6 +238,7 @@ ARRANGEMENT SECTIONS:
 - Use breakdowns to create tension and release
 
 GROOVE PHILOSOPHY:
+- Set metadata.patternGeneration to give the track its feel (e.g. grooveTemplate "berlin_machine" with a little humanization)
 - Nothing should land exactly on the beat unless it's intentional
 - Every instrument should have its own rhythmic personality throughout the journey
 - Create spaces and tension through strategic placement
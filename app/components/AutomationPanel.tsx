@@ -0,0 +1,179 @@
+"use client";
+
+import { useState } from "react";
+import { AUTOMATION_PARAMETERS, MASTER_TARGET, getAutomationScope, resolveAutomationPoints } from "@/lib/automation";
+import { STEPS_PER_BAR } from "@/lib/arrangement";
+import type { AutomationLane } from "@/lib/songSchema";
+
+interface AutomationPanelProps {
+  lanes: AutomationLane[];
+  targets: string[];
+  bars: number;
+  onChange: (lanes: AutomationLane[]) => void;
+}
+
+const CURVES: NonNullable<AutomationLane["curve"]>[] = ["linear", "exponential", "step"];
+
+const formatValue = (value: number) => (Math.abs(value) >= 100 ? `${Math.round(value)}` : value.toFixed(2));
+
+function parametersFor(target: string): string[] {
+  const scope = getAutomationScope({ target });
+  return Object.keys(AUTOMATION_PARAMETERS).filter((parameter) => AUTOMATION_PARAMETERS[parameter].scope === scope);
+}
+
+/**
+ * Lists the song's automation lanes with a slider per breakpoint. New lanes
+ * start flat from the first bar to the last; points are added per bar and
+ * edited in place. Edits are reported through `onChange` as a whole new list.
+ */
+export function AutomationPanel({ lanes, targets, bars, onChange }: AutomationPanelProps) {
+  const [target, setTarget] = useState(targets[0] ?? MASTER_TARGET);
+  const [parameter, setParameter] = useState(parametersFor(target)[0]);
+
+  const updateLane = (index: number, lane: AutomationLane) =>
+    onChange(lanes.map((current, i) => (i === index ? lane : current)));
+
+  const addLane = () => {
+    const range = AUTOMATION_PARAMETERS[parameter];
+    if (!range) return;
+    const value = range.logarithmic ? range.max : (range.min + range.max) / 2;
+    onChange([
+      ...lanes,
+      {
+        target,
+        parameter,
+        curve: range.logarithmic ? "exponential" : "linear",
+        points: [
+          { bar: 1, value },
+          { bar: bars, value },
+        ],
+      },
+    ]);
+  };
+
+  const addPoint = (index: number, bar: number) => {
+    const lane = lanes[index];
+    const step = (bar - 1) * STEPS_PER_BAR;
+    const points = resolveAutomationPoints(lane);
+    // Start the new point at the value the lane already has there
+    const before = [...points].reverse().find((point) => point.step <= step) ?? points[0];
+    updateLane(index, { ...lane, points: [...lane.points, { bar, value: before.value }] });
+  };
+
+  return (
+    <div className="grid gap-3 w-full max-w-md text-left">
+      {lanes.map((lane, index) => {
+        const range = AUTOMATION_PARAMETERS[lane.parameter];
+        return (
+          <div key={index} className="bg-black/40 p-2 rounded">
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-sm text-white font-orbitron uppercase">
+                {lane.target} · {range?.label ?? lane.parameter}
+              </span>
+              <div className="flex gap-1">
+                <select
+                  value={lane.curve ?? "linear"}
+                  onChange={(event) =>
+                    updateLane(index, { ...lane, curve: event.target.value as AutomationLane["curve"] })
+                  }
+                  className="bg-gray-700 text-gray-300 text-xs"
+                >
+                  {CURVES.map((curve) => (
+                    <option key={curve} value={curve}>
+                      {curve}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => addPoint(index, Math.ceil(bars / 2))}
+                  className="px-2 text-xs font-bold bg-gray-700 text-gray-300"
+                  title="Add a point mid-song"
+                >
+                  +
+                </button>
+                <button
+                  onClick={() => onChange(lanes.filter((_, i) => i !== index))}
+                  className="px-2 text-xs font-bold bg-red-600 text-white"
+                  title="Remove lane"
+                >
+                  ×
+                </button>
+              </div>
+            </div>
+            {lane.points.map((point, pointIndex) => (
+              <div key={pointIndex} className="flex items-center gap-2 text-xs text-gray-400 font-exo">
+                <span className="w-10">Bar</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={bars}
+                  value={point.bar ?? Math.floor((point.step ?? 0) / STEPS_PER_BAR) + 1}
+                  onChange={(event) => {
+                    const bar = Math.min(bars, Math.max(1, Number(event.target.value) || 1));
+                    const points = lane.points.map((current, i) =>
+                      i === pointIndex ? { bar, value: current.value } : current
+                    );
+                    updateLane(index, { ...lane, points });
+                  }}
+                  className="w-12 bg-gray-800 text-gray-300"
+                />
+                <input
+                  type="range"
+                  min={range?.min ?? 0}
+                  max={range?.max ?? 1}
+                  step={range ? (range.max - range.min) / 200 : 0.01}
+                  value={point.value}
+                  onChange={(event) => {
+                    const value = Number(event.target.value);
+                    const points = lane.points.map((current, i) => (i === pointIndex ? { ...current, value } : current));
+                    updateLane(index, { ...lane, points });
+                  }}
+                  className="flex-1 accent-blue-600"
+                />
+                <span className="w-12 text-right text-gray-300">{formatValue(point.value)}</span>
+                <button
+                  onClick={() => updateLane(index, { ...lane, points: lane.points.filter((_, i) => i !== pointIndex) })}
+                  disabled={lane.points.length === 1}
+                  className="px-1 text-gray-500 disabled:opacity-30"
+                  title="Remove point"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+        );
+      })}
+      <div className="flex items-center gap-2 text-xs font-exo">
+        <select
+          value={target}
+          onChange={(event) => {
+            setTarget(event.target.value);
+            setParameter(parametersFor(event.target.value)[0]);
+          }}
+          className="bg-gray-700 text-gray-300"
+        >
+          {[...targets, MASTER_TARGET].map((name) => (
+            <option key={name} value={name}>
+              {name}
+            </option>
+          ))}
+        </select>
+        <select
+          value={parameter}
+          onChange={(event) => setParameter(event.target.value)}
+          className="flex-1 bg-gray-700 text-gray-300"
+        >
+          {parametersFor(target).map((name) => (
+            <option key={name} value={name}>
+              {AUTOMATION_PARAMETERS[name].label}
+            </option>
+          ))}
+        </select>
+        <button onClick={addLane} className="px-2 py-1 bg-blue-600 text-white font-bold">
+          Add lane
+        </button>
+      </div>
+    </div>
+  );
+}
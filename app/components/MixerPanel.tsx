@@ -0,0 +1,138 @@
+"use client";
+
+import { resolveInstrumentKind } from "@/lib/instrumentKinds";
+import type { TrackMix } from "@/lib/mixer";
+import type { TrackData } from "@/lib/songSchema";
+import { soundBank, type SoundPreset } from "@/lib/sound-bank";
+
+interface MixerPanelProps {
+  tracks: Record<string, TrackData>;
+  onChange: (name: string, mix: Partial<TrackMix>) => void;
+  // Picks a sound bank preset for a track, or undefined for its built-in voice
+  onPresetChange?: (name: string, preset: string | undefined) => void;
+}
+
+interface MixerSliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+  onChange: (value: number) => void;
+}
+
+function MixerSlider({ label, value, min, max, step, format, onChange }: MixerSliderProps) {
+  return (
+    <label className="flex items-center gap-2 text-xs text-gray-400 font-exo">
+      <span className="w-10">{label}</span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(event) => onChange(Number(event.target.value))}
+        className="flex-1 accent-blue-600"
+      />
+      <span className="w-12 text-right text-gray-300">{format(value)}</span>
+    </label>
+  );
+}
+
+// The bank's presets for the track's family, plus the track's embedded preset when this bank doesn't have it
+function presetOptions(name: string, track: TrackData): SoundPreset[] {
+  const presets = soundBank.getPresetsForInstrument(resolveInstrumentKind(name));
+  const embedded = track.presetData;
+  return embedded && !presets.some(({ id }) => id === embedded.id) ? [...presets, embedded] : presets;
+}
+
+const formatDb = (value: number) => `${value > 0 ? "+" : ""}${value} dB`;
+const formatPan = (value: number) => (value === 0 ? "C" : `${value < 0 ? "L" : "R"}${Math.round(Math.abs(value) * 100)}`);
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+/**
+ * One channel strip per track. Edits are reported through `onChange` (and
+ * preset picks through `onPresetChange`) so the page can write them into
+ * SongData and forward them to the engine.
+ */
+export function MixerPanel({ tracks, onChange, onPresetChange }: MixerPanelProps) {
+  return (
+    <div className="grid gap-3 w-full max-w-md text-left">
+      {Object.entries(tracks).map(([name, track]) => (
+        <div key={name} className="bg-black/40 p-2 rounded">
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-sm text-white font-orbitron uppercase">{name}</span>
+            {onPresetChange && (
+              <select
+                value={track.preset ?? ""}
+                onChange={(event) => onPresetChange(name, event.target.value || undefined)}
+                className="flex-1 mx-2 bg-gray-700 text-gray-300 text-xs"
+                title="Sound preset"
+              >
+                <option value="">Built-in</option>
+                {presetOptions(name, track).map((preset) => (
+                  <option key={preset.id} value={preset.id}>
+                    {preset.name}
+                  </option>
+                ))}
+              </select>
+            )}
+            <div className="flex gap-1">
+              <button
+                onClick={() => onChange(name, { muted: !track.muted })}
+                className={`px-2 text-xs font-bold ${track.muted ? "bg-red-600 text-white" : "bg-gray-700 text-gray-300"}`}
+                title="Mute"
+              >
+                M
+              </button>
+              <button
+                onClick={() => onChange(name, { solo: !track.solo })}
+                className={`px-2 text-xs font-bold ${track.solo ? "bg-yellow-500 text-black" : "bg-gray-700 text-gray-300"}`}
+                title="Solo"
+              >
+                S
+              </button>
+            </div>
+          </div>
+          <MixerSlider
+            label="Vol"
+            value={track.volume}
+            min={-60}
+            max={6}
+            step={1}
+            format={formatDb}
+            onChange={(volume) => onChange(name, { volume })}
+          />
+          <MixerSlider
+            label="Pan"
+            value={track.pan ?? 0}
+            min={-1}
+            max={1}
+            step={0.05}
+            format={formatPan}
+            onChange={(pan) => onChange(name, { pan })}
+          />
+          <MixerSlider
+            label="Verb"
+            value={track.sends?.reverb ?? 0}
+            min={0}
+            max={1}
+            step={0.01}
+            format={formatPercent}
+            onChange={(reverb) => onChange(name, { sends: { ...track.sends, reverb } })}
+          />
+          <MixerSlider
+            label="Delay"
+            value={track.sends?.delay ?? 0}
+            min={0}
+            max={1}
+            step={0.01}
+            format={formatPercent}
+            onChange={(delay) => onChange(name, { sends: { ...track.sends, delay } })}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+"use client";
+
+import { useState } from "react";
+import { soundBank, type EffectConfig, type SoundPreset } from "@/lib/sound-bank";
+
+interface PresetLibraryProps {
+  userPresets: SoundPreset[];
+  // Saves a copy of `baseId` with the edited fields as a new user preset
+  onSave: (baseId: string, changes: Partial<SoundPreset>) => void;
+  onRemove: (id: string) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+}
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+/**
+ * Authoring for user presets: pick any preset as a starting point, rename it,
+ * tweak its volume and effect mix, and save the result to the bank. Saved
+ * presets are listed with remove buttons, and can be exported or imported
+ * as a JSON file.
+ */
+export function PresetLibrary({ userPresets, onSave, onRemove, onExport, onImport }: PresetLibraryProps) {
+  const presets = soundBank.getAllPresets();
+  const [baseId, setBaseId] = useState(presets[0]?.id ?? "");
+  const base = soundBank.getPreset(baseId);
+  const [name, setName] = useState("");
+  const [volume, setVolume] = useState(base?.volume ?? 0.8);
+  const [effects, setEffects] = useState<EffectConfig[]>(base?.effects ?? []);
+
+  const selectBase = (id: string) => {
+    const preset = soundBank.getPreset(id);
+    setBaseId(id);
+    setVolume(preset?.volume ?? 0.8);
+    setEffects(preset?.effects ?? []);
+  };
+
+  const save = () => {
+    if (!base) return;
+    onSave(baseId, { name: name.trim() || `${base.name} (Copy)`, volume, effects });
+    setName("");
+  };
+
+  return (
+    <div className="grid gap-2 w-full max-w-md text-left bg-black/40 p-2 rounded">
+      <div className="flex items-center gap-2 text-xs font-exo">
+        <select
+          value={baseId}
+          onChange={(event) => selectBase(event.target.value)}
+          className="flex-1 bg-gray-700 text-gray-300"
+          title="Start from preset"
+        >
+          {presets.map((preset) => (
+            <option key={preset.id} value={preset.id}>
+              {preset.name}
+              {soundBank.isUserPreset(preset.id) ? " ★" : ""}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={name}
+          placeholder={base ? `${base.name} (Copy)` : "Preset name"}
+          onChange={(event) => setName(event.target.value)}
+          className="flex-1 bg-gray-800 text-gray-300 px-1"
+        />
+      </div>
+      <label className="flex items-center gap-2 text-xs text-gray-400 font-exo">
+        <span className="w-16">Volume</span>
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.01}
+          value={volume}
+          onChange={(event) => setVolume(Number(event.target.value))}
+          className="flex-1 accent-blue-600"
+        />
+        <span className="w-12 text-right text-gray-300">{formatPercent(volume)}</span>
+      </label>
+      {effects.map((effect, index) => (
+        <label key={index} className="flex items-center gap-2 text-xs text-gray-400 font-exo">
+          <span className="w-16">{effect.type}</span>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.01}
+            value={effect.wetness ?? 1}
+            onChange={(event) => {
+              const wetness = Number(event.target.value);
+              setEffects(effects.map((current, i) => (i === index ? { ...current, wetness } : current)));
+            }}
+            className="flex-1 accent-blue-600"
+          />
+          <span className="w-12 text-right text-gray-300">{formatPercent(effect.wetness ?? 1)}</span>
+        </label>
+      ))}
+      <div className="flex items-center gap-2 text-xs font-exo">
+        <button onClick={save} disabled={!base} className="px-2 py-1 bg-blue-600 text-white font-bold disabled:opacity-30">
+          Save preset
+        </button>
+        <button
+          onClick={onExport}
+          disabled={userPresets.length === 0}
+          className="px-2 py-1 bg-gray-700 text-gray-300 font-bold disabled:opacity-30"
+        >
+          Export
+        </button>
+        <label className="px-2 py-1 bg-gray-700 text-gray-300 font-bold cursor-pointer">
+          Import
+          <input
+            type="file"
+            accept=".json,application/json"
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              if (file) onImport(file);
+              // Let the same file be picked again
+              event.target.value = "";
+            }}
+            className="hidden"
+          />
+        </label>
+      </div>
+      {userPresets.map((preset) => (
+        <div key={preset.id} className="flex items-center gap-2 text-xs text-gray-400 font-exo">
+          <span className="flex-1 text-gray-300">{preset.name}</span>
+          <span>{preset.category}</span>
+          <button onClick={() => onRemove(preset.id)} className="px-1 text-gray-500" title="Remove preset">
+            ×
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+"use client";
+
+import {
+  formatPosition,
+  formatSectionName,
+  type Arrangement,
+  type LoopRegion,
+  type TransportPosition,
+} from "@/lib/arrangement";
+
+interface TransportBarProps {
+  position: TransportPosition;
+  playing: boolean;
+  bars: number;
+  arrangement?: Arrangement;
+  loop: LoopRegion | null;
+  onPlayPause: () => void;
+  onStop: () => void;
+  onSeek: (bar: number) => void;
+  onLoopChange: (loop: LoopRegion | null) => void;
+}
+
+// Loop length offered when looping is switched on, e.g. one 8-bar breakdown
+const DEFAULT_LOOP_BARS = 8;
+
+/**
+ * Play/pause, stop, a bar:beat:sixteenth readout, cue buttons for each
+ * arrangement section and a bar-range loop. The page forwards every action
+ * to the engine and feeds the position back in.
+ */
+export function TransportBar({
+  position,
+  playing,
+  bars,
+  arrangement,
+  loop,
+  onPlayPause,
+  onStop,
+  onSeek,
+  onLoopChange,
+}: TransportBarProps) {
+  // Sections in song order, cued at their first bar
+  const cues = Object.entries(arrangement ?? {})
+    .map(([name, section]) => ({ name, bar: Math.min(...section.bars) }))
+    .filter(({ bar }) => Number.isFinite(bar))
+    .sort((a, b) => a.bar - b.bar);
+  const clampBar = (bar: number) => Math.min(bars, Math.max(1, Math.round(bar) || 1));
+
+  const toggleLoop = () => {
+    if (loop) {
+      onLoopChange(null);
+      return;
+    }
+    const startBar = clampBar(position.bar);
+    onLoopChange({ startBar, endBar: clampBar(startBar + DEFAULT_LOOP_BARS - 1) });
+  };
+
+  return (
+    <div className="grid gap-2 w-full max-w-md text-left bg-black/40 p-2 rounded">
+      <div className="flex items-center gap-2">
+        <button
+          onClick={onPlayPause}
+          className="px-3 py-1 bg-blue-600 text-white text-xs font-bold"
+          title={playing ? "Pause" : "Play"}
+        >
+          {playing ? "❚❚" : "▶"}
+        </button>
+        <button onClick={onStop} className="px-3 py-1 bg-gray-700 text-gray-300 text-xs font-bold" title="Stop">
+          ■
+        </button>
+        <span className="flex-1 text-center text-lg text-green-400 font-mono">{formatPosition(position)}</span>
+        <label className="flex items-center gap-1 text-xs text-gray-400 font-exo">
+          Bar
+          <input
+            type="number"
+            min={1}
+            max={bars}
+            value={position.bar}
+            onChange={(event) => onSeek(clampBar(Number(event.target.value)))}
+            className="w-12 bg-gray-800 text-gray-300"
+          />
+        </label>
+      </div>
+      {cues.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {cues.map(({ name, bar }) => (
+            <button
+              key={name}
+              onClick={() => onSeek(bar)}
+              className="px-2 text-xs bg-gray-700 text-gray-300 font-orbitron"
+              title={`Jump to bar ${bar}`}
+            >
+              {formatSectionName(name)}
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="flex items-center gap-2 text-xs text-gray-400 font-exo">
+        <button
+          onClick={toggleLoop}
+          className={`px-2 font-bold ${loop ? "bg-yellow-500 text-black" : "bg-gray-700 text-gray-300"}`}
+          title="Loop"
+        >
+          Loop
+        </button>
+        {loop && (
+          <>
+            <input
+              type="number"
+              min={1}
+              max={loop.endBar}
+              value={loop.startBar}
+              onChange={(event) => onLoopChange({ ...loop, startBar: clampBar(Number(event.target.value)) })}
+              className="w-12 bg-gray-800 text-gray-300"
+            />
+            <span>to</span>
+            <input
+              type="number"
+              min={loop.startBar}
+              max={bars}
+              value={loop.endBar}
+              onChange={(event) => onLoopChange({ ...loop, endBar: clampBar(Number(event.target.value)) })}
+              className="w-12 bg-gray-800 text-gray-300"
+            />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
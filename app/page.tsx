@@ -14,12 +14,32 @@ import {
   EthBalance,
 } from "@coinbase/onchainkit/identity";
 import { useAccount } from "wagmi";
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useMiniKit } from "@coinbase/onchainkit/minikit";
-import { SimpleAudioEngine } from "@/lib/simpleAudioEngine";
+import { SimpleAudioEngine, type QuantizeOptions } from "@/lib/simpleAudioEngine";
+import type { PendingChange, StepEvent } from "@/lib/engineEvents";
+import {
+  formatSectionName,
+  positionForStep,
+  type LoopRegion,
+  type SectionInfo,
+  type TransportPosition,
+} from "@/lib/arrangement";
+import { renderSongToWav } from "@/lib/renderSong";
+import { exportSongAsMidi } from "@/lib/midiExport";
+import { getTrackLoopLength } from "@/lib/songTimeline";
+import { importSongFromMidi } from "@/lib/midiImport";
+import type { TrackMix } from "@/lib/mixer";
 import { DataFetcher, UserDataSnapshot } from "@/lib/data-fetcher";
-import { SongData, TrackData, validateSongData } from "@/lib/songSchema";
+import { SongData, TrackData, validateSongData, type AutomationLane } from "@/lib/songSchema";
+import { melodyToTrack, noteAtStep, type MelodyStep } from "@/lib/trackNotes";
+import { fillBassLines, generateBassLine } from "@/lib/bassLines";
 import { MintSongButtonTransaction } from "@/app/components/MintSongButtonTransaction";
+import { MixerPanel } from "@/app/components/MixerPanel";
+import { AutomationPanel } from "@/app/components/AutomationPanel";
+import { TransportBar } from "@/app/components/TransportBar";
+import { PresetLibrary } from "@/app/components/PresetLibrary";
+import { soundBank, type SoundPreset } from "@/lib/sound-bank";
 
 // Animation and styling constants
 const FLASH_TEXT_DURATION = 150;
@@ -29,6 +49,11 @@ const BEAT_INTENSITY_BRIGHTNESS_FACTOR = 0.4;
 const BEAT_INTENSITY_SHADOW_FACTOR = 20;
 const BEAT_INTENSITY_GLOW_OPACITY = 0.9;
 
+// Beat intensity follows the master RMS level: silence below the floor, full at 0 dB
+const BEAT_INTENSITY_FLOOR_DB = -30;
+// Intensity is rounded to this many levels so the page only re-renders on visible changes
+const BEAT_INTENSITY_LEVELS = 10;
+
 // CSS styles for the pulsating square
 interface SquareStyle {
   transform: string;
@@ -39,6 +64,22 @@ interface SquareStyle {
 
 type FlashText = (typeof FLASH_TEXTS)[number] | null;
 
+// Trigger a browser download for a generated file
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+function songFileName(song: SongData, extension: string): string {
+  return `${song.metadata.title.replace(/[^a-zA-Z0-9]/g, '_')}_${Date.now()}.${extension}`;
+}
+
 // PulsatingSquare component props
 interface PulsatingSquareProps {
   style: SquareStyle;
@@ -83,14 +124,15 @@ function PulsatingSquare({
 
 // Drum sequencer component
 function DrumSequencer({
-  currentStep,
+  cycleStep,
   songData,
   showSnareTrack,
   showBassTrack,
   showAcidTrack,
   showLeadTrack,
 }: {
-  currentStep: number;
+  // Position in the engine's polymeter cycle; each row wraps at its own length
+  cycleStep: number;
   songData: SongData;
   showSnareTrack?: boolean;
   showBassTrack?: boolean;
@@ -104,9 +146,15 @@ function DrumSequencer({
   const snarePattern = songData.tracks.snare?.pattern || [];
   const bassPattern = songData.tracks.bass?.pattern || [];
   const acidPattern = songData.tracks.acid?.pattern || [];
-  const acidNotes = songData.tracks.acid?.notes || [];
   const leadPattern = songData.tracks.lead?.pattern || [];
-  const leadNotes = songData.tracks.lead?.notes || [];
+
+  // Tracks with their own `length` loop independently; the rest every metadata.steps
+  const loopLength = (track?: TrackData) => track ? getTrackLoopLength(track, songData) : songData.metadata.steps;
+  const kickLength = loopLength(songData.tracks.kick);
+  const snareLength = loopLength(songData.tracks.snare);
+  const bassLength = loopLength(songData.tracks.bass);
+  const acidLength = loopLength(songData.tracks.acid);
+  const leadLength = loopLength(songData.tracks.lead);
 
   return (
     <div className="w-full px-10">
@@ -118,7 +166,7 @@ function DrumSequencer({
       >
         {steps.map((step) => {
           const hasKick = kickPattern.includes(step);
-          const isCurrentStep = step === currentStep % 16; // Cycle through 16 steps
+          const isCurrentStep = step === cycleStep % kickLength;
 
           return (
             <div
@@ -127,7 +175,7 @@ function DrumSequencer({
                 hasKick
                   ? "bg-blue-600 hover:bg-blue-700"
                   : "bg-blue-600 bg-opacity-20 hover:bg-opacity-30"
-              } ${isCurrentStep ? "ring-2 ring-white" : ""}`}
+              } ${isCurrentStep ? "ring-2 ring-white" : ""} ${step >= kickLength ? "invisible" : ""}`}
               style={{
                 animationDelay: `${step * 50}ms`,
                 animationFillMode: "forwards",
@@ -148,7 +196,7 @@ function DrumSequencer({
         >
           {steps.map((step) => {
             const hasSnare = snarePattern.includes(step);
-            const isCurrentStep = step === currentStep % 16;
+            const isCurrentStep = step === cycleStep % snareLength;
 
             return (
               <div
@@ -157,7 +205,7 @@ function DrumSequencer({
                   hasSnare
                     ? "hover:brightness-110"
                     : "hover:bg-opacity-30"
-                } ${isCurrentStep ? "ring-2 ring-white" : ""}`}
+                } ${isCurrentStep ? "ring-2 ring-white" : ""} ${step >= snareLength ? "invisible" : ""}`}
                 style={{
                   animationDelay: `${step * 50}ms`,
                   animationFillMode: "forwards",
@@ -180,7 +228,7 @@ function DrumSequencer({
         >
           {steps.map((step) => {
             const hasBass = bassPattern.includes(step);
-            const isCurrentStep = step === currentStep % 16;
+            const isCurrentStep = step === cycleStep % bassLength;
 
             return (
               <div
@@ -189,7 +237,7 @@ function DrumSequencer({
                   hasBass
                     ? "hover:brightness-110"
                     : "hover:bg-opacity-30"
-                } ${isCurrentStep ? "ring-2 ring-white" : ""}`}
+                } ${isCurrentStep ? "ring-2 ring-white" : ""} ${step >= bassLength ? "invisible" : ""}`}
                 style={{
                   animationDelay: `${step * 50}ms`,
                   animationFillMode: "forwards",
@@ -211,8 +259,8 @@ function DrumSequencer({
           style={{ gap: "min(0.5rem, calc((100vw - 160px) / 32))" }}
         >
           {steps.map((step) => {
-            const hasAcid = acidPattern.includes(step) && acidNotes[step];
-            const isCurrentStep = step === currentStep % 16;
+            const hasAcid = noteAtStep(songData.tracks.acid, step) !== undefined;
+            const isCurrentStep = step === cycleStep % acidLength;
 
             return (
               <div
@@ -221,7 +269,7 @@ function DrumSequencer({
                   hasAcid
                     ? "hover:brightness-110"
                     : "hover:bg-opacity-30"
-                } ${isCurrentStep ? "ring-2 ring-white" : ""}`}
+                } ${isCurrentStep ? "ring-2 ring-white" : ""} ${step >= acidLength ? "invisible" : ""}`}
                 style={{
                   animationDelay: `${step * 50}ms`,
                   animationFillMode: "forwards",
@@ -243,8 +291,8 @@ function DrumSequencer({
           style={{ gap: "min(0.5rem, calc((100vw - 160px) / 32))" }}
         >
           {steps.map((step) => {
-            const hasLead = leadPattern.includes(step) && leadNotes[step];
-            const isCurrentStep = step === currentStep % 16;
+            const hasLead = noteAtStep(songData.tracks.lead, step) !== undefined;
+            const isCurrentStep = step === cycleStep % leadLength;
 
             return (
               <div
@@ -253,7 +301,7 @@ function DrumSequencer({
                   hasLead
                     ? "hover:brightness-110"
                     : "hover:bg-opacity-30"
-                } ${isCurrentStep ? "ring-2 ring-white" : ""}`}
+                } ${isCurrentStep ? "ring-2 ring-white" : ""} ${step >= leadLength ? "invisible" : ""}`}
                 style={{
                   animationDelay: `${step * 50}ms`,
                   animationFillMode: "forwards",
@@ -276,11 +324,13 @@ export default function CreatePage() {
   const { isConnected, address } = useAccount();
   const { context } = useMiniKit();
   const audioEngineRef = useRef<SimpleAudioEngine | null>(null);
+  // How the engine should apply the next songData update (see updateSongData)
+  const engineSyncOptionsRef = useRef<QuantizeOptions>({});
   const beatCountRef = useRef(0);
   const [dataFetcher] = useState(() => new DataFetcher());
 
   // UI state
-  const [currentStep, setCurrentStep] = useState(0);
+  const [cycleStep, setCycleStep] = useState(0);
   const [beatIntensity, setBeatIntensity] = useState(0);
   const [showFlashText, setShowFlashText] = useState<FlashText>(null);
   const [bottomText, setBottomText] = useState("");
@@ -289,6 +339,12 @@ export default function CreatePage() {
   const [showSequencer, setShowSequencer] = useState(false);
   const [sequencerText, setSequencerText] = useState("");
   const [sequencerTextVisible, setSequencerTextVisible] = useState(false);
+  const [currentSection, setCurrentSection] = useState<SectionInfo | null>(null);
+  const [pendingChanges, setPendingChanges] = useState<PendingChange[]>([]);
+  const [transportPosition, setTransportPosition] = useState<TransportPosition>(() => positionForStep(0));
+  const [isTransportPlaying, setIsTransportPlaying] = useState(false);
+  const [loopRegion, setLoopRegion] = useState<LoopRegion | null>(null);
+  const [userPresets, setUserPresets] = useState<SoundPreset[]>([]);
   const squareRef = useRef<HTMLDivElement>(null);
 
   // Data and track state
@@ -313,10 +369,10 @@ export default function CreatePage() {
       },
       effects: {
         filter: {
-          cutoff: 0.8,
+          cutoff: 1,
           type: "lowpass",
-          startFreq: 800,
-          endFreq: 800
+          startFreq: 20000, // Fully open - the AI producer adds the sweep
+          endFreq: 20000
         },
         reverb: {
           wet: 0.3,
@@ -337,6 +393,7 @@ export default function CreatePage() {
         },
         bass: {
           pattern: [0, 2, 8, 10], // Simple bass pattern
+          notes: generateBassLine([0, 2, 8, 10]),
           muted: true, // Start muted
           volume: -6
         },
@@ -372,6 +429,7 @@ export default function CreatePage() {
   
   // Mint state
   const [showMintButton, setShowMintButton] = useState(false);
+  const [isRenderingWav, setIsRenderingWav] = useState(false);
   const [mintResult, setMintResult] = useState<{ tokenId: string; shareableURL: string; transactionURL: string } | null>(null);
   
   // Avatar analysis modal state
@@ -386,6 +444,9 @@ export default function CreatePage() {
     try {
       const exportData = {
         ...songData,
+        // Pick up any runtime changes made to the master effects, and user presets as saved now
+        effects: audioEngineRef.current?.getEffects() ?? songData.effects,
+        tracks: soundBank.withPresetData(songData.tracks),
         metadata: {
           ...songData.metadata,
           title: `${songData.metadata.title} - ${new Date().toLocaleTimeString()}`
@@ -410,17 +471,44 @@ export default function CreatePage() {
     }
 
     const blob = new Blob([jsonString], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `${songData.metadata.title.replace(/[^a-zA-Z0-9]/g, '_')}_${Date.now()}.json`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    const filename = songFileName(songData, 'json');
+    downloadBlob(blob, filename);
     
-    console.log('📥 Song JSON downloaded:', link.download);
-  }, [exportSongData, songData.metadata.title]);
+    console.log('📥 Song JSON downloaded:', filename);
+  }, [exportSongData, songData]);
+
+  // Download the song as a multi-track MIDI file for finishing in a DAW
+  const handleDownloadMidi = useCallback(() => {
+    try {
+      const song = validateSongData(songData);
+      const blob = new Blob([exportSongAsMidi(song)], { type: 'audio/midi' });
+      const filename = songFileName(song, 'mid');
+      downloadBlob(blob, filename);
+      console.log('📥 Song MIDI downloaded:', filename);
+    } catch (error) {
+      console.error('❌ MIDI export failed:', error);
+    }
+  }, [songData]);
+
+  // Render the full song offline and download it as a WAV file
+  const handleDownloadWav = useCallback(async () => {
+    setIsRenderingWav(true);
+    try {
+      const song = validateSongData({
+        ...songData,
+        effects: audioEngineRef.current?.getEffects() ?? songData.effects,
+        tracks: soundBank.withPresetData(songData.tracks),
+      });
+      const blob = await renderSongToWav(song);
+      const filename = songFileName(song, 'wav');
+      downloadBlob(blob, filename);
+      console.log('📥 Song WAV downloaded:', filename);
+    } catch (error) {
+      console.error('❌ WAV render failed:', error);
+    } finally {
+      setIsRenderingWav(false);
+    }
+  }, [songData]);
 
   // Cleanup audio engine on unmount
   useEffect(() => {
@@ -436,8 +524,10 @@ export default function CreatePage() {
     }
   }, [isConnected, address, userSnapshot, isLoadingData]);
 
-  // Helper function to update song data safely with validation
-  const updateSongData = useCallback((updater: (current: SongData) => SongData) => {
+  // Helper function to update song data safely with validation. The engine
+  // follows along (see below), quantizing pattern changes when asked to
+  const updateSongData = useCallback((updater: (current: SongData) => SongData, options: QuantizeOptions = {}) => {
+    engineSyncOptionsRef.current = options;
     setSongData(current => {
       try {
         const updated = updater(current);
@@ -456,6 +546,77 @@ export default function CreatePage() {
     });
   }, []);
 
+  // The engine plays whatever songData holds: every edit lands here and only what moved is re-applied
+  useEffect(() => {
+    audioEngineRef.current?.updateSong(songData, engineSyncOptionsRef.current);
+    engineSyncOptionsRef.current = {};
+  }, [songData]);
+
+  // Mixer edits go into SongData so they survive save, load and mint
+  const handleMixerChange = useCallback((name: string, mix: Partial<TrackMix>) => {
+    updateSongData(current => {
+      const track = current.tracks[name];
+      if (!track) return current;
+      return { ...current, tracks: { ...current.tracks, [name]: { ...track, ...mix } } };
+    });
+  }, [updateSongData]);
+
+  const handlePresetChange = useCallback((name: string, preset: string | undefined) => {
+    updateSongData(current => {
+      const track = current.tracks[name];
+      if (!track) return current;
+      // User presets travel with the song, so it sounds the same where they were never saved
+      const presetData = soundBank.getPresetData(preset);
+      return { ...current, tracks: { ...current.tracks, [name]: { ...track, preset, presetData } } };
+    });
+  }, [updateSongData]);
+
+  // User presets live in local storage; merge them into the bank once on load
+  useEffect(() => {
+    soundBank.loadUserPresets();
+    setUserPresets(soundBank.getUserPresets());
+    // Sample presets join the pickers once their files turn up under public/samples
+    soundBank.checkSamplePresets().then(() => setUserPresets(soundBank.getUserPresets()));
+  }, []);
+
+  const handleSavePreset = useCallback((baseId: string, changes: Partial<SoundPreset>) => {
+    try {
+      const preset = soundBank.createUserPreset(baseId, changes);
+      console.log('💾 Preset saved:', preset.id);
+    } catch (error) {
+      console.error('❌ Preset save failed:', error);
+    }
+    setUserPresets(soundBank.getUserPresets());
+  }, []);
+
+  // Tracks playing a removed preset fall back to their built-in voice
+  const handleRemovePreset = useCallback((id: string) => {
+    soundBank.removeUserPreset(id);
+    setUserPresets(soundBank.getUserPresets());
+    Object.entries(songData.tracks)
+      .filter(([, track]) => track.preset === id)
+      .forEach(([name]) => handlePresetChange(name, undefined));
+  }, [songData.tracks, handlePresetChange]);
+
+  const handleExportPresets = useCallback(() => {
+    const blob = new Blob([soundBank.exportPresets()], { type: 'application/json' });
+    downloadBlob(blob, 'basedrum-presets.json');
+  }, []);
+
+  const handleImportPresets = useCallback(async (file: File) => {
+    try {
+      const { imported, renamed } = soundBank.importPresets(await file.text());
+      console.log('📂 Presets imported:', imported.map((preset) => preset.id), renamed);
+    } catch (error) {
+      console.error('❌ Preset import failed:', error);
+    }
+    setUserPresets(soundBank.getUserPresets());
+  }, []);
+
+  const handleAutomationChange = useCallback((lanes: AutomationLane[]) => {
+    updateSongData(current => ({ ...current, automation: lanes }));
+  }, [updateSongData]);
+
   const generateKickPattern = useCallback(
     (transactionCount: number): number[] => {
       if (transactionCount === 0) {
@@ -556,11 +717,6 @@ export default function CreatePage() {
         generatedPattern,
       );
       console.log("User snapshot:", snapshot);
-
-      // Update audio engine with new pattern if initialized
-      if (audioEngineRef.current) {
-        audioEngineRef.current.setKickPattern(generatedPattern);
-      }
     } catch (error) {
       console.error("Failed to fetch user data:", error);
       // Use default pattern on error
@@ -575,11 +731,6 @@ export default function CreatePage() {
           }
         }
       }));
-
-      // Update audio engine with default pattern if initialized
-      if (audioEngineRef.current) {
-        audioEngineRef.current.setKickPattern(defaultPattern);
-      }
     } finally {
       setIsLoadingData(false);
     }
@@ -745,17 +896,14 @@ export default function CreatePage() {
         const notes = colors.map(colorToNote);
         
         // Create lead pattern from avatar analysis - LESS IS MORE approach
-        const avatarLeadPattern: number[] = [];
-        const avatarLeadNotes = new Array(16).fill("");
+        const avatarMelody: MelodyStep[] = [];
         
         // Filter out null notes and create more musical spacing
         const validNotes = notes.filter(note => note !== null);
         
         if (validNotes.length === 0) {
           // If no valid notes, create a simple, minimal pattern using D and G (matching bass key)
-          avatarLeadPattern.push(0, 8);
-          avatarLeadNotes[0] = "D3";
-          avatarLeadNotes[8] = "G3";
+          avatarMelody.push({ step: 0, note: "D3" }, { step: 8, note: "G3" });
         } else {
           // LESS IS MORE: Use only 2-4 notes maximum for a sparse, musical lead
           // Focus on key strong beats for maximum musical impact
@@ -766,15 +914,13 @@ export default function CreatePage() {
           
           // Place notes only on the most important beats
           for (let i = 0; i < notesToUse.length; i++) {
-            const position = musicalPositions[i];
-            avatarLeadPattern.push(position);
-            avatarLeadNotes[position] = notesToUse[i];
+            avatarMelody.push({ step: musicalPositions[i], note: notesToUse[i] });
           }
-          
-          // Sort pattern array to be in chronological order
-          avatarLeadPattern.sort((a, b) => a - b);
         }
         
+        // Pattern in chronological order, with each note at its pattern index
+        const avatarLead = melodyToTrack(avatarMelody);
+        
         // Update song data with avatar-generated pattern
         updateSongData(current => ({
           ...current,
@@ -782,28 +928,18 @@ export default function CreatePage() {
             ...current.tracks,
             lead: {
               ...current.tracks.lead,
-              pattern: avatarLeadPattern,
-              notes: avatarLeadNotes,
+              ...avatarLead,
+              muted: false // Unmute the lead track
             }
           }
         }));
-        
-        // Update audio engine
-        if (audioEngineRef.current) {
-          const leadMelodyData = avatarLeadPattern.map(step => ({
-            step,
-            notes: avatarLeadNotes[step] ? [avatarLeadNotes[step]] : []
-          }));
-          audioEngineRef.current.setLeadPattern(leadMelodyData);
-          audioEngineRef.current.setLeadMuted(false); // Unmute the lead track
-          
-          console.log('🎵 Avatar lead pattern generated:', {
-            totalColors: colors.length,
-            validNotes: validNotes.length,
-            finalPattern: leadMelodyData,
-            musicalSpacing: 'Strong beats prioritized for musical results'
-          });
-        }
+
+        console.log('🎵 Avatar lead pattern generated:', {
+          totalColors: colors.length,
+          validNotes: validNotes.length,
+          finalPattern: avatarMelody,
+          musicalSpacing: 'Strong beats prioritized for musical results'
+        });
         
         setTimeout(() => {
           setAvatarAnalysisStage('complete');
@@ -817,6 +953,52 @@ export default function CreatePage() {
     }, 2000);
   }, [analyzeAvatarColors, colorToNote, updateSongData]);
 
+  // Load a complete song (AI-enhanced or imported) into the audio engine for full playback
+  const loadSongIntoEngine = useCallback((song: SongData) => {
+    if (!audioEngineRef.current) return;
+    console.log('Loading full track with', song.metadata.steps, 'steps');
+
+    // Every track, including ones the AI producer added (hihat909, rumble, ...), with its stored mute and solo
+    audioEngineRef.current.loadSong(song);
+    // Loading a song clears the engine's loop region
+    setLoopRegion(null);
+  }, []);
+
+  const handleTransportPlayPause = useCallback(async () => {
+    const engine = audioEngineRef.current;
+    if (!engine) return;
+    if (engine.getIsPlaying()) {
+      engine.pause();
+    } else {
+      await engine.play();
+    }
+  }, []);
+
+  const handleTransportStop = useCallback(() => {
+    const engine = audioEngineRef.current;
+    if (!engine) return;
+    engine.stop();
+    setTransportPosition(engine.getPosition());
+  }, []);
+
+  const handleSeek = useCallback((bar: number) => {
+    const engine = audioEngineRef.current;
+    if (!engine) return;
+    engine.seek(bar);
+    if (!engine.getIsPlaying()) setTransportPosition(engine.getPosition());
+  }, []);
+
+  const handleLoopChange = useCallback((loop: LoopRegion | null) => {
+    const engine = audioEngineRef.current;
+    if (!engine) return;
+    if (loop) {
+      engine.setLoop(loop.startBar, loop.endBar);
+    } else {
+      engine.clearLoop();
+    }
+    setLoopRegion(engine.getLoop());
+  }, []);
+
   const sendToAIProducer = useCallback(async () => {
     try {
       setIsAIProcessing(true);
@@ -841,8 +1023,15 @@ export default function CreatePage() {
 
       const improvedSongData = await response.json();
       
-      // Validate the improved song data
-      const validatedImprovedSong = validateSongData(improvedSongData);
+      // Validate the improved song data, writing a bass line for any bass track the AI left without notes
+      const improvedSong = fillBassLines(validateSongData(improvedSongData));
+      // The arrangement decides what plays, so tracks still muted from the walkthrough are unmuted in the song itself
+      const validatedImprovedSong: SongData = {
+        ...improvedSong,
+        tracks: Object.fromEntries(
+          Object.entries(improvedSong.tracks).map(([name, track]) => [name, { ...track, muted: false }])
+        ),
+      };
       
       // Update the song data with the improved version
       console.log('AI-enhanced song received:', {
@@ -856,34 +1045,7 @@ export default function CreatePage() {
       setSongData(validatedImprovedSong);
       
       // Update audio engine with improved patterns
-      if (audioEngineRef.current) {
-        console.log('Loading AI-enhanced track with', validatedImprovedSong.metadata.steps, 'steps');
-        
-        // Set sequence length for the new track
-        audioEngineRef.current.setSequenceLength(validatedImprovedSong.metadata.steps);
-        
-        // Unmute all tracks for full arrangement
-        audioEngineRef.current.unmuteAllTracks();
-        
-        // Update all tracks with improved patterns
-        if (validatedImprovedSong.tracks.kick) {
-          audioEngineRef.current.setKickPattern(validatedImprovedSong.tracks.kick.pattern);
-        }
-        if (validatedImprovedSong.tracks.snare) {
-          audioEngineRef.current.setSnarePattern(validatedImprovedSong.tracks.snare.pattern);
-        }
-        if (validatedImprovedSong.tracks.bass) {
-          audioEngineRef.current.setBassPattern(validatedImprovedSong.tracks.bass.pattern);
-        }
-        if (validatedImprovedSong.tracks.acid) {
-          // Convert pattern + notes back to melody format for audio engine
-          const melodyData = validatedImprovedSong.tracks.acid.pattern.map(step => ({
-            step,
-            note: validatedImprovedSong.tracks.acid.notes?.[step] || null
-          }));
-          audioEngineRef.current.setAcidPattern(melodyData);
-        }
-      }
+      loadSongIntoEngine(validatedImprovedSong);
 
       // Show completion message
       setIsAIProcessing(false);
@@ -911,7 +1073,46 @@ export default function CreatePage() {
         exportSongData();
       }, 300);
     }
-  }, [songData, validateSongData, exportSongData]);
+  }, [songData, validateSongData, exportSongData, loadSongIntoEngine]);
+
+  // Convert a dropped .mid file into a song and play it as the full track
+  const handleMidiDrop = useCallback(async (event: React.DragEvent<HTMLDivElement>) => {
+    // Keep the browser from navigating to whatever was dropped
+    event.preventDefault();
+    const file = Array.from(event.dataTransfer.files).find((candidate) => /\.midi?$/i.test(candidate.name));
+    if (!file) return;
+
+    try {
+      const { song, warnings } = importSongFromMidi(await file.arrayBuffer(), {
+        title: file.name.replace(/\.midi?$/i, ''),
+      });
+      warnings.forEach((warning) => console.warn('⚠️ MIDI import:', warning));
+      setSongData(song);
+      loadSongIntoEngine(song);
+      setIsPlayingAIVersion(true);
+      setProgressionStage('complete');
+      setSequencerTextVisible(false);
+      setTimeout(() => {
+        const trackCount = Object.keys(song.tracks).length;
+        const dropped = warnings.length > 0 ? ` Heads up: ${warnings.join('; ')}.` : '';
+        setSequencerText(`🎹 Imported "${song.metadata.title}" with ${trackCount} tracks at ${song.metadata.bpm} BPM.${dropped}`);
+        setSequencerTextVisible(true);
+      }, 300);
+    } catch (error) {
+      console.error('❌ MIDI import failed:', error);
+      setSequencerTextVisible(false);
+      setTimeout(() => {
+        setSequencerText(`Couldn't import ${file.name}: ${error instanceof Error ? error.message : 'unknown error'}`);
+        setSequencerTextVisible(true);
+      }, 300);
+    }
+  }, [loadSongIntoEngine]);
+
+  // Minted songs carry the user presets they play as currently saved
+  const mintSongData = useMemo(
+    () => ({ ...songData, tracks: soundBank.withPresetData(songData.tracks, userPresets) }),
+    [songData, userPresets]
+  );
 
   const handleMintSuccess = useCallback((tokenId: string) => {
     console.log('🎉 Song minted successfully!', tokenId);
@@ -972,10 +1173,7 @@ export default function CreatePage() {
                     pattern: personalizedPattern
                   }
                 }
-              }));
-              if (audioEngineRef.current) {
-                audioEngineRef.current.setKickPattern(personalizedPattern);
-              }
+              }), { quantize: 1 });
               console.log("✨ Pattern upgraded from basic to personalized!", personalizedPattern);
             }, 500); // 500ms after personal text appears for dramatic effect
           }
@@ -1005,8 +1203,6 @@ export default function CreatePage() {
             }
           }
         }));
-        audioEngineRef.current?.setSnarePattern(basicSnarePattern);
-        audioEngineRef.current?.setSnareMuted(false);
         
         // 2. Show educational text
         setTimeout(() => {
@@ -1049,8 +1245,7 @@ export default function CreatePage() {
                     pattern: personalizedClapPattern
                   }
                 }
-              }));
-              audioEngineRef.current?.setSnarePattern(personalizedClapPattern);
+              }), { quantize: 1 });
             }, 500);
           }
           
@@ -1067,6 +1262,7 @@ export default function CreatePage() {
         // 1. Change title and start with basic bass pattern
         setShowBassTrack(true);
         const basicBassPattern = [0, 2, 8, 10]; // Simple bass pattern
+        const basicBassNotes = generateBassLine(basicBassPattern, songData.metadata.patternGeneration);
         updateSongData(current => ({
           ...current,
           tracks: {
@@ -1074,12 +1270,11 @@ export default function CreatePage() {
             bass: {
               ...current.tracks.bass,
               pattern: basicBassPattern,
+              notes: basicBassNotes,
               muted: false // Unmute the bass track now that we're introducing it
             }
           }
         }));
-        audioEngineRef.current?.setBassPattern(basicBassPattern);
-        audioEngineRef.current?.setBassMuted(false);
         
         // 2. Show educational text
         setTimeout(() => {
@@ -1109,6 +1304,7 @@ export default function CreatePage() {
           const basicBassPattern = [0, 2, 8, 10]; // Basic bass
           const userTokenCount = userSnapshot?.onchain.tokenCount || 0;
           const personalizedBassPattern = generateBassPattern(userTokenCount);
+          const personalizedBassNotes = generateBassLine(personalizedBassPattern, songData.metadata.patternGeneration);
           
           // Only upgrade if it's different from basic
           if (JSON.stringify(personalizedBassPattern) !== JSON.stringify(basicBassPattern)) {
@@ -1119,11 +1315,11 @@ export default function CreatePage() {
                   ...current.tracks,
                   bass: {
                     ...current.tracks.bass,
-                    pattern: personalizedBassPattern
+                    pattern: personalizedBassPattern,
+                    notes: personalizedBassNotes
                   }
                 }
-              }));
-              audioEngineRef.current?.setBassPattern(personalizedBassPattern);
+              }), { quantize: 1 });
             }, 500);
           }
           
@@ -1148,16 +1344,7 @@ export default function CreatePage() {
           console.log('Generating acid melody from wallet address:', addressToUse);
           const generatedMelody = audioEngineRef.current.generateAcidMelodyFromWallet(addressToUse);
           
-          // Convert melody format to schema format
-          const acidSteps: number[] = [];
-          const acidNotes: string[] = new Array(16).fill("");
-          
-          generatedMelody.forEach(({ step, note }) => {
-            if (note) {
-              acidSteps.push(step);
-              acidNotes[step] = note;
-            }
-          });
+          const acid = melodyToTrack(generatedMelody);
           
           updateSongData(current => ({
             ...current,
@@ -1165,15 +1352,11 @@ export default function CreatePage() {
               ...current.tracks,
               acid: {
                 ...current.tracks.acid,
-                pattern: acidSteps,
-                notes: acidNotes,
+                ...acid,
                 muted: false // Unmute the acid track now that we're introducing it
               }
             }
           }));
-          
-          audioEngineRef.current.setAcidPattern(generatedMelody);
-          audioEngineRef.current.setAcidMuted(false);
           console.log('Generated acid melody:', generatedMelody);
         }
         
@@ -1260,7 +1443,7 @@ export default function CreatePage() {
       // User clicked Next to send to AI producer
       sendToAIProducer();
     }
-  }, [progressionStage, generateKickPattern, getPersonalKickMessage, generateClapPattern, getPersonalSnareMessage, generateBassPattern, getPersonalBassMessage, getPersonalAcidMessage, userSnapshot, address, exportSongData, sendToAIProducer]);
+  }, [progressionStage, generateKickPattern, getPersonalKickMessage, generateClapPattern, getPersonalSnareMessage, generateBassPattern, getPersonalBassMessage, getPersonalAcidMessage, userSnapshot, address, exportSongData, sendToAIProducer, songData.metadata.patternGeneration]);
 
   const animateSquareTransition = useCallback(() => {
     console.log("Animation triggered - simple transition");
@@ -1288,9 +1471,6 @@ export default function CreatePage() {
           }
         }
       }));
-      if (audioEngineRef.current) {
-        audioEngineRef.current.setKickPattern(basicPattern);
-      }
 
       // Start sequencer text sequence
       setTimeout(() => {
@@ -1306,8 +1486,9 @@ export default function CreatePage() {
   }, [getPersonalKickMessage, userSnapshot, generateKickPattern]);
 
   const handleStepChange = useCallback(
-    (step: number) => {
-      setCurrentStep(step);
+    ({ step, cycleStep }: StepEvent) => {
+      setCycleStep(cycleStep);
+      setTransportPosition(positionForStep(step));
 
       // Only count quarter note beats (every 4 steps) for the animation timing
       if (step % 4 === 0) {
@@ -1346,6 +1527,20 @@ export default function CreatePage() {
     [animateSquareTransition],
   );
 
+  // Pulse the square with the real output level, so every track drives it
+  useEffect(() => {
+    let frame = 0;
+    const update = () => {
+      const { rms } = audioEngineRef.current?.getMasterLevel() ?? { rms: 0 };
+      const db = rms > 0 ? 20 * Math.log10(rms) : -Infinity;
+      const level = Math.min(1, Math.max(0, 1 - db / BEAT_INTENSITY_FLOOR_DB));
+      setBeatIntensity(Math.round(level * BEAT_INTENSITY_LEVELS) / BEAT_INTENSITY_LEVELS);
+      frame = requestAnimationFrame(update);
+    };
+    frame = requestAnimationFrame(update);
+    return () => cancelAnimationFrame(frame);
+  }, []);
+
   const getSquareStyle = useCallback((): SquareStyle => {
     const baseScale = 1;
 
@@ -1390,13 +1585,21 @@ export default function CreatePage() {
 
       if (!audioEngineRef.current) {
         audioEngineRef.current = new SimpleAudioEngine();
-        await audioEngineRef.current.initialize(
-          handleStepChange,
-          setBeatIntensity,
-        );
+        audioEngineRef.current.on("step", handleStepChange);
+        audioEngineRef.current.on("section", setCurrentSection);
+        audioEngineRef.current.on("pending", setPendingChanges);
+        audioEngineRef.current.on("play", () => setIsTransportPlaying(true));
+        audioEngineRef.current.on("pause", () => setIsTransportPlaying(false));
+        audioEngineRef.current.on("stop", () => setIsTransportPlaying(false));
+        await audioEngineRef.current.initialize();
         // Always start with basic pattern, ignore state
         const basicKickPattern = [0, 4, 8, 12];
-        audioEngineRef.current.setKickPattern(basicKickPattern);
+        const withBasicKick = (current: SongData): SongData => ({
+          ...current,
+          tracks: { ...current.tracks, kick: { ...current.tracks.kick, pattern: basicKickPattern } },
+        });
+        audioEngineRef.current.loadSong(withBasicKick(songData));
+        updateSongData(withBasicKick);
         beatCountRef.current = 0;
       }
 
@@ -1404,10 +1607,14 @@ export default function CreatePage() {
     } catch (error) {
       console.error("Failed to start audio:", error);
     }
-  }, [handleStepChange, showSequencer, isTransitioning]);
+  }, [handleStepChange, showSequencer, isTransitioning, songData, updateSongData]);
 
   return (
-    <div className="h-screen bg-black text-white flex flex-col relative overflow-hidden font-exo">
+    <div
+      className="h-screen bg-black text-white flex flex-col relative overflow-hidden font-exo"
+      onDragOver={(event) => event.preventDefault()}
+      onDrop={handleMidiDrop}
+    >
       <style jsx>{`
         @keyframes flash-in {
           0% {
@@ -1491,19 +1698,31 @@ export default function CreatePage() {
           </Wallet>
         )}
 
-        {/* Download button - only shows when track is complete */}
+        {/* Download buttons - only show when track is complete */}
         {(progressionStage === 'complete' || isPlayingAIVersion) && (
-          <button
-            onClick={handleDownloadJson}
-            className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded-lg font-orbitron text-sm transition-colors flex items-center gap-2 z-10"
-            title="Download song data as JSON"
-          >
-            <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
-              <path d="M14,2H6A2,2 0 0,0 4,4V20A2,2 0 0,0 6,22H18A2,2 0 0,0 20,20V8L14,2M18,20H6V4H13V9H18V20Z" />
-              <path d="M12,19L8,15H10.5V12H13.5V15H16L12,19Z" />
-            </svg>
-            Download JSON
-          </button>
+          <div className="flex gap-2 z-10">
+            <button
+              onClick={handleDownloadJson}
+              className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded-lg font-orbitron text-sm transition-colors flex items-center gap-2"
+              title="Download song data as JSON"
+            >
+              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+                <path d="M14,2H6A2,2 0 0,0 4,4V20A2,2 0 0,0 6,22H18A2,2 0 0,0 20,20V8L14,2M18,20H6V4H13V9H18V20Z" />
+                <path d="M12,19L8,15H10.5V12H13.5V15H16L12,19Z" />
+              </svg>
+              Download JSON
+            </button>
+            <button
+              onClick={handleDownloadMidi}
+              className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded-lg font-orbitron text-sm transition-colors flex items-center gap-2"
+              title="Download song as a multi-track MIDI file"
+            >
+              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+                <path d="M21,3V15.5A3.5,3.5 0 0,1 17.5,19A3.5,3.5 0 0,1 14,15.5A3.5,3.5 0 0,1 17.5,12C18.04,12 18.55,12.12 19,12.34V6.47L9,8.6V17.5A3.5,3.5 0 0,1 5.5,21A3.5,3.5 0 0,1 2,17.5A3.5,3.5 0 0,1 5.5,14C6.04,14 6.55,14.12 7,14.34V6L21,3Z" />
+              </svg>
+              Download MIDI
+            </button>
+          </div>
         )}
       </header>
 
@@ -1553,11 +1772,49 @@ export default function CreatePage() {
                     <div className="text-center">
                       <div className="text-6xl mb-4">🎵</div>
                       <div className="text-xl text-gray-300 font-orbitron">Playing full 32-bar arrangement</div>
+                      {currentSection && (
+                        <div className="text-lg text-green-400 mt-2 font-orbitron">
+                          {formatSectionName(currentSection.name)} – bar {currentSection.bar}
+                        </div>
+                      )}
                       <div className="text-sm text-gray-500 mt-2 font-exo">Listen to your complete techno journey</div>
+                      <div className="mt-4 flex justify-center">
+                        <TransportBar
+                          position={transportPosition}
+                          playing={isTransportPlaying}
+                          bars={songData.metadata.bars}
+                          arrangement={songData.arrangement}
+                          loop={loopRegion}
+                          onPlayPause={handleTransportPlayPause}
+                          onStop={handleTransportStop}
+                          onSeek={handleSeek}
+                          onLoopChange={handleLoopChange}
+                        />
+                      </div>
+                      <div className="mt-4 max-h-64 overflow-y-auto flex justify-center">
+                        <MixerPanel tracks={songData.tracks} onChange={handleMixerChange} onPresetChange={handlePresetChange} />
+                      </div>
+                      <div className="mt-4 max-h-64 overflow-y-auto flex justify-center">
+                        <PresetLibrary
+                          userPresets={userPresets}
+                          onSave={handleSavePreset}
+                          onRemove={handleRemovePreset}
+                          onExport={handleExportPresets}
+                          onImport={handleImportPresets}
+                        />
+                      </div>
+                      <div className="mt-4 max-h-64 overflow-y-auto flex justify-center">
+                        <AutomationPanel
+                          lanes={songData.automation ?? []}
+                          targets={Object.keys(songData.tracks)}
+                          bars={songData.metadata.bars}
+                          onChange={handleAutomationChange}
+                        />
+                      </div>
                     </div>
                   ) : (
                     <DrumSequencer
-                      currentStep={currentStep}
+                      cycleStep={cycleStep}
                       songData={songData}
                       showSnareTrack={showSnareTrack}
                       showBassTrack={showBassTrack}
@@ -1566,6 +1823,13 @@ export default function CreatePage() {
                     />
                   )}
 
+                  {/* Changes waiting for the next bar line */}
+                  {pendingChanges.length > 0 && (
+                    <div className="absolute top-4 left-0 right-0 text-center text-xs text-yellow-400 font-orbitron tracking-wide animate-pulse">
+                      Queued: {pendingChanges.map(change => change.label).join(', ')}
+                    </div>
+                  )}
+
                   {/* Next Button */}
                   {showNextButton && progressionStage !== 'complete' && progressionStage !== 'ai-processing' && (
                     <div className="absolute bottom-0 left-0 right-0 z-10">
@@ -1596,14 +1860,22 @@ export default function CreatePage() {
 
                   {/* Mint Button */}
                   {showMintButton && progressionStage === 'complete' && (
-                    <div className="absolute bottom-0 left-0 right-0 z-10 px-4 pb-4">
+                    <div className="absolute bottom-0 left-0 right-0 z-10 px-4 pb-4 flex gap-2 items-start">
                       <MintSongButtonTransaction
-                        songData={songData}
+                        songData={mintSongData}
                         creatorFid={userSnapshot?.farcaster.fid || 0}
                         onSuccess={handleMintSuccess}
                         onError={handleMintError}
-                        className="w-full"
+                        className="flex-1"
                       />
+                      <button
+                        onClick={handleDownloadWav}
+                        disabled={isRenderingWav}
+                        className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white font-bold py-4 px-6 font-orbitron text-lg tracking-wide transition-colors"
+                        title="Render the full song as a WAV file"
+                      >
+                        {isRenderingWav ? 'Rendering...' : 'Download WAV'}
+                      </button>
                     </div>
                   )}
 
@@ -0,0 +1,62 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  barForStep,
+  findSectionForBar,
+  formatPosition,
+  formatSectionName,
+  isTrackActiveInSection,
+  positionForStep,
+  type Arrangement,
+} from "./arrangement";
+import { compileSongToEvents } from "./songTimeline";
+import type { TrackData } from "./songSchema";
+
+const ARRANGEMENT: Arrangement = {
+  intro: { bars: [1, 2], activeTracks: ["kick"] },
+  drop: { bars: [3], activeTracks: "all" },
+};
+
+describe("arrangement", () => {
+  it("counts 1-based bars, beats and sixteenths from 0-based steps", () => {
+    assert.equal(barForStep(0), 1);
+    assert.equal(barForStep(15), 1);
+    assert.equal(barForStep(16), 2);
+    assert.deepEqual(positionForStep(0), { bar: 1, beat: 1, sixteenth: 1 });
+    assert.equal(formatPosition(positionForStep(16 * 16 + 6)), "17:2:3");
+  });
+
+  it("finds the section covering a bar, and none outside every section", () => {
+    assert.equal(findSectionForBar(ARRANGEMENT, 2)?.name, "intro");
+    assert.equal(findSectionForBar(ARRANGEMENT, 3)?.name, "drop");
+    assert.equal(findSectionForBar(ARRANGEMENT, 4), null);
+    assert.equal(findSectionForBar(undefined, 1), null);
+  });
+
+  it("plays every track outside sections and in sections open to all", () => {
+    assert.equal(isTrackActiveInSection(null, "bass"), true);
+    assert.equal(isTrackActiveInSection(ARRANGEMENT.drop, "bass"), true);
+    assert.equal(isTrackActiveInSection(ARRANGEMENT.intro, "kick"), true);
+    assert.equal(isTrackActiveInSection(ARRANGEMENT.intro, "bass"), false);
+  });
+
+  it("silences inactive tracks in compiled songs, bar by bar", () => {
+    const track = (pattern: number[]): TrackData => ({ pattern, muted: false, volume: 0 });
+    const events = compileSongToEvents({
+      metadata: { bpm: 120, bars: 4, steps: 16 },
+      tracks: { kick: track([0]), bass: track([0]) },
+      arrangement: ARRANGEMENT,
+    });
+
+    assert.deepEqual(
+      events.map(({ track: name, step }) => [name, step]),
+      [["kick", 0], ["kick", 16], ["bass", 32], ["kick", 32], ["bass", 48], ["kick", 48]]
+    );
+  });
+
+  it("labels section names for display", () => {
+    assert.equal(formatSectionName("breakdown"), "Breakdown");
+    assert.equal(formatSectionName("drop_2"), "Drop 2");
+    assert.equal(formatSectionName("buildUp1"), "Build Up 1");
+  });
+});
@@ -0,0 +1,79 @@
+import type { SongData } from "./songSchema";
+
+export type Arrangement = NonNullable<SongData["arrangement"]>;
+export type ArrangementSection = Arrangement[string];
+
+export const STEPS_PER_BAR = 16;
+export const STEPS_PER_BEAT = 4;
+
+// A section the playhead is in, as reported to the UI
+export interface SectionInfo {
+  name: string;
+  // 1-based bar the section was entered on
+  bar: number;
+  activeTracks: ArrangementSection["activeTracks"];
+}
+
+// Playhead position as a bar:beat:sixteenth counter, all 1-based
+export interface TransportPosition {
+  bar: number;
+  beat: number;
+  sixteenth: number;
+}
+
+// A looped span of whole bars, first and last bar included
+export interface LoopRegion {
+  startBar: number;
+  endBar: number;
+}
+
+// Bars are 1-based in the arrangement, steps are 0-based
+export function barForStep(step: number): number {
+  return Math.floor(step / STEPS_PER_BAR) + 1;
+}
+
+export function positionForStep(step: number): TransportPosition {
+  return {
+    bar: barForStep(step),
+    beat: Math.floor((step % STEPS_PER_BAR) / STEPS_PER_BEAT) + 1,
+    sixteenth: (step % STEPS_PER_BEAT) + 1,
+  };
+}
+
+// e.g. "17:1:1" for the downbeat of bar 17
+export function formatPosition({ bar, beat, sixteenth }: TransportPosition): string {
+  return `${bar}:${beat}:${sixteenth}`;
+}
+
+/**
+ * Finds the arrangement section that covers a bar. Bars outside every
+ * section return null, meaning all tracks play.
+ */
+export function findSectionForBar(
+  arrangement: Arrangement | undefined,
+  bar: number
+): { name: string; section: ArrangementSection } | null {
+  if (!arrangement) return null;
+  const entry = Object.entries(arrangement).find(([, section]) => section.bars.includes(bar));
+  return entry ? { name: entry[0], section: entry[1] } : null;
+}
+
+export function isTrackActiveInSection(
+  section: Pick<ArrangementSection, "activeTracks"> | null,
+  trackName: string
+): boolean {
+  if (!section || section.activeTracks === "all") return true;
+  return section.activeTracks.includes(trackName);
+}
+
+/**
+ * Human-readable section label, e.g. "breakdown" → "Breakdown",
+ * "drop_2" → "Drop 2", "buildUp1" → "Build Up 1".
+ */
+export function formatSectionName(name: string): string {
+  return name
+    .replace(/([a-z])([A-Z0-9])/g, "$1 $2")
+    .replace(/[_-]+/g, " ")
+    .trim()
+    .replace(/\b\w/g, (char) => char.toUpperCase());
+}
@@ -0,0 +1,60 @@
+import * as Tone from "tone";
+
+// Linear 0–1 levels over the most recent block of samples
+export interface TrackLevel {
+  rms: number;
+  peak: number;
+}
+
+// Samples per meter block; ~23ms at 44.1kHz, about one animation frame plus slack
+export const METER_SIZE = 1024;
+// FFT bins returned by the master spectrum (half the FFT size)
+const SPECTRUM_BINS = 128;
+const WAVEFORM_SIZE = 1024;
+
+export const SILENT_LEVEL: TrackLevel = { rms: 0, peak: 0 };
+
+export function measureLevel(samples: Float32Array): TrackLevel {
+  let sumOfSquares = 0;
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const magnitude = Math.abs(samples[i]);
+    sumOfSquares += magnitude * magnitude;
+    peak = Math.max(peak, magnitude);
+  }
+  return { rms: samples.length > 0 ? Math.sqrt(sumOfSquares / samples.length) : 0, peak: Math.min(1, peak) };
+}
+
+/**
+ * Taps the final mix for visualizers: FFT bins (dB, low to high), the raw
+ * waveform and an overall level. Reading is cheap enough to do every
+ * animation frame.
+ */
+export class MasterAnalyser {
+  private spectrum: Tone.Analyser;
+  private waveform: Tone.Analyser;
+
+  constructor(source: Tone.ToneAudioNode = Tone.getDestination()) {
+    this.spectrum = new Tone.Analyser("fft", SPECTRUM_BINS);
+    this.waveform = new Tone.Analyser("waveform", WAVEFORM_SIZE);
+    source.connect(this.spectrum);
+    source.connect(this.waveform);
+  }
+
+  getSpectrum(): Float32Array {
+    return this.spectrum.getValue() as Float32Array;
+  }
+
+  getWaveform(): Float32Array {
+    return this.waveform.getValue() as Float32Array;
+  }
+
+  getLevel(): TrackLevel {
+    return measureLevel(this.getWaveform());
+  }
+
+  dispose(): void {
+    this.spectrum.dispose();
+    this.waveform.dispose();
+  }
+}
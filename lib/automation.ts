@@ -0,0 +1,94 @@
+import { STEPS_PER_BAR } from "./arrangement";
+import type { AutomationLane } from "./songSchema";
+import type { TempoMap } from "./tempoMap";
+
+// Lanes with this target automate the master bus instead of a track
+export const MASTER_TARGET = "master";
+
+export type AutomationScope = "track" | "master";
+
+export interface AutomationParameter {
+  scope: AutomationScope;
+  min: number;
+  max: number;
+  // Suggests exponential curves in editors, e.g. for frequencies
+  logarithmic?: boolean;
+  label: string;
+}
+
+// Everything a lane can move, with the range editors should offer
+export const AUTOMATION_PARAMETERS: Record<string, AutomationParameter> = {
+  volume: { scope: "track", min: -60, max: 6, label: "Volume (dB)" },
+  pan: { scope: "track", min: -1, max: 1, label: "Pan" },
+  "send.reverb": { scope: "track", min: 0, max: 1, label: "Reverb send" },
+  "send.delay": { scope: "track", min: 0, max: 1, label: "Delay send" },
+  cutoff: { scope: "track", min: 20, max: 20000, logarithmic: true, label: "Cutoff (Hz)" },
+  resonance: { scope: "track", min: 0.1, max: 20, label: "Resonance" },
+  detune: { scope: "track", min: -1200, max: 1200, label: "Detune (cents)" },
+  "filter.frequency": { scope: "master", min: 20, max: 20000, logarithmic: true, label: "Filter (Hz)" },
+  "filter.Q": { scope: "master", min: 0.1, max: 20, label: "Filter Q" },
+  "reverb.wet": { scope: "master", min: 0, max: 1, label: "Reverb" },
+  "delay.feedback": { scope: "master", min: 0, max: 0.95, label: "Delay feedback" },
+};
+
+/**
+ * The scheduling half of a Tone.Param. Ramps land on the audio clock, so
+ * automation is sample-accurate.
+ */
+export interface AutomatableParam {
+  cancelScheduledValues(time: number): unknown;
+  setValueAtTime(value: number, time: number): unknown;
+  linearRampToValueAtTime(value: number, time: number): unknown;
+  exponentialRampToValueAtTime(value: number, time: number): unknown;
+}
+
+export interface ResolvedPoint {
+  step: number;
+  value: number;
+}
+
+export function getAutomationScope(lane: Pick<AutomationLane, "target">): AutomationScope {
+  return lane.target === MASTER_TARGET ? "master" : "track";
+}
+
+// Breakpoints on the step grid, in order, clamped to the parameter's range
+export function resolveAutomationPoints(lane: AutomationLane): ResolvedPoint[] {
+  const range = AUTOMATION_PARAMETERS[lane.parameter];
+  return lane.points
+    .map(({ step, bar, value }) => ({
+      step: step ?? ((bar ?? 1) - 1) * STEPS_PER_BAR,
+      value: range ? Math.min(range.max, Math.max(range.min, value)) : value,
+    }))
+    .sort((a, b) => a.step - b.step);
+}
+
+/**
+ * Schedules one pass of a lane on `param`, with the song starting at
+ * `startTime`. The first value holds from the start of the pass; a point at
+ * `songSteps` lands on the song's end and points past it wait for a longer song.
+ */
+export function scheduleAutomation(
+  param: AutomatableParam,
+  lane: AutomationLane,
+  startTime: number,
+  tempo: TempoMap,
+  songSteps: number
+): void {
+  const points = resolveAutomationPoints(lane).filter(({ step }) => step <= songSteps);
+  if (points.length === 0) return;
+
+  const curve = lane.curve ?? "linear";
+  param.cancelScheduledValues(startTime);
+  param.setValueAtTime(points[0].value, startTime);
+  points.forEach(({ step, value }, index) => {
+    const time = startTime + tempo.timeAtStep(step);
+    const previous = points[index - 1];
+    if (curve === "step" || !previous) {
+      param.setValueAtTime(value, time);
+    } else if (curve === "exponential" && value > 0 && previous.value > 0) {
+      param.exponentialRampToValueAtTime(value, time);
+    } else {
+      param.linearRampToValueAtTime(value, time);
+    }
+  });
+}
@@ -0,0 +1,74 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { fillBassLines, generateBassLine, withBassLine } from "./bassLines";
+import { DEFAULT_EFFECTS } from "./masterBus";
+import type { SongData, TrackData } from "./songSchema";
+
+const FOUR_ON_THE_FLOOR = [0, 4, 8, 12];
+
+function track(fields: Partial<TrackData> = {}): TrackData {
+  return { pattern: FOUR_ON_THE_FLOOR, muted: false, volume: 0, ...fields };
+}
+
+describe("generateBassLine", () => {
+  it("plays the original D minor riff for songs without a key", () => {
+    assert.deepEqual(generateBassLine(FOUR_ON_THE_FLOOR), ["D1", "D1", "F1", "G1"]);
+  });
+
+  it("moves each bar to the phrase's root and snaps to the scale", () => {
+    // Bar 3 sits on the sixth; the third and fourth above it snap down to C and D
+    assert.deepEqual(generateBassLine([32, 36, 40, 44]), ["A#1", "A#1", "C2", "D2"]);
+  });
+
+  it("follows the song's key and scale", () => {
+    assert.deepEqual(generateBassLine(FOUR_ON_THE_FLOOR, { key: "C", scale: "minor_pentatonic" }), [
+      "C1",
+      "C1",
+      "D#1",
+      "F1",
+    ]);
+  });
+
+  it("uses the busier riff from complexity 0.5", () => {
+    assert.deepEqual(generateBassLine(FOUR_ON_THE_FLOOR, { complexity: 0.6 }), ["D1", "D2", "F1", "D1"]);
+  });
+
+  it("indexes notes like the pattern even when it isn't in step order", () => {
+    assert.deepEqual(generateBassLine([12, 0, 8, 4]), ["G1", "D1", "F1", "D1"]);
+  });
+});
+
+describe("withBassLine", () => {
+  it("fills in missing notes and keeps the ones the track has", () => {
+    assert.deepEqual(withBassLine(track({ notes: ["E1", ""] })).notes, ["E1", "D1", "F1", "G1"]);
+  });
+
+  it("returns tracks with a note for every hit unchanged", () => {
+    const complete = track({ notes: ["C2", "C2", "C2", "C2"] });
+    assert.equal(withBassLine(complete), complete);
+  });
+});
+
+describe("fillBassLines", () => {
+  it("only writes notes for bass tracks, in the song's key", () => {
+    const song: SongData = {
+      metadata: {
+        title: "Test",
+        artist: "BaseDrum",
+        version: "1.0.0",
+        created: "2026-01-01T00:00:00.000Z",
+        bpm: 120,
+        bars: 1,
+        steps: 16,
+        format: "basedrum-v1",
+        patternGeneration: { key: "A" },
+      },
+      effects: DEFAULT_EFFECTS,
+      tracks: { bass: track(), lead: track() },
+    };
+    const filled = fillBassLines(song);
+
+    assert.deepEqual(filled.tracks.bass.notes, ["A1", "A1", "C2", "D2"]);
+    assert.equal(filled.tracks.lead.notes, undefined);
+  });
+});
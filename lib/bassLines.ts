@@ -0,0 +1,92 @@
+import { STEPS_PER_BAR } from "./arrangement";
+import { resolveInstrumentKind } from "./instrumentKinds";
+import type { PatternGeneration, SongData, TrackData } from "./songSchema";
+
+type PatternSettings = NonNullable<PatternGeneration>;
+type Key = NonNullable<PatternSettings["key"]>;
+type Scale = NonNullable<PatternSettings["scale"]>;
+
+// Settings a bass line follows; the rest of patternGeneration is about rhythm
+export type BassLineSettings = Pick<PatternSettings, "key" | "scale" | "complexity">;
+
+const KEYS: readonly Key[] = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
+
+// Semitones above the tonic for every scale patternGeneration offers
+const SCALE_INTERVALS: Record<Scale, readonly number[]> = {
+  minor: [0, 2, 3, 5, 7, 8, 10],
+  minor_pentatonic: [0, 3, 5, 7, 10],
+  harmonic_minor: [0, 2, 3, 5, 7, 8, 11],
+  dorian: [0, 2, 3, 5, 7, 9, 10],
+  phrygian: [0, 1, 3, 5, 7, 8, 10],
+};
+
+// Songs without a key keep BaseDrum's original D minor bass
+const DEFAULT_KEY: Key = "D";
+const DEFAULT_SCALE: Scale = "minor";
+// MIDI note of the tonic's lowest octave used for bass, octave 1 (C1 = 24)
+const BASS_OCTAVE_START = 24;
+
+// Semitones each bar's root sits above the tonic, a four-bar i–i–VI–VII phrase
+const BAR_ROOTS = [0, 0, 8, 10];
+// Semitones above the bar root for the hits within a bar, root–root–third–fourth like the original riff
+const RIFF = [0, 0, 3, 5];
+// Busier lines jump octaves and walk through the fifth and seventh
+const BUSY_RIFF = [0, 12, 3, 0, 7, 5, 10, 12];
+// patternGeneration.complexity from which bass lines use BUSY_RIFF
+const BUSY_COMPLEXITY = 0.5;
+
+function noteName(midi: number): string {
+  return `${KEYS[midi % 12]}${Math.floor(midi / 12) - 1}`;
+}
+
+// The nearest scale tone at or below `semitones` above the tonic
+function snapToScale(semitones: number, intervals: readonly number[]): number {
+  const octave = Math.floor(semitones / 12);
+  const degree = semitones - octave * 12;
+  const snapped = intervals.filter((interval) => interval <= degree).pop() ?? 0;
+  return octave * 12 + snapped;
+}
+
+/**
+ * Writes a note for every hit in a bass pattern, indexed like
+ * TrackData.notes. Each bar plays the riff over that bar's root, moving
+ * through a four-bar minor phrase, with every note snapped to the song's
+ * key and scale.
+ */
+export function generateBassLine(pattern: readonly number[], settings: BassLineSettings = {}): string[] {
+  const intervals = SCALE_INTERVALS[settings.scale ?? DEFAULT_SCALE];
+  const tonic = BASS_OCTAVE_START + KEYS.indexOf(settings.key ?? DEFAULT_KEY);
+  const riff = (settings.complexity ?? 0) >= BUSY_COMPLEXITY ? BUSY_RIFF : RIFF;
+
+  return pattern.map((step) => {
+    const bar = Math.floor(step / STEPS_PER_BAR);
+    // Position of this hit among the bar's hits, whatever order the pattern lists them in
+    const position = pattern.filter(
+      (other) => Math.floor(other / STEPS_PER_BAR) === bar && other < step
+    ).length;
+    const semitones = BAR_ROOTS[bar % BAR_ROOTS.length] + riff[position % riff.length];
+    return noteName(tonic + snapToScale(semitones, intervals));
+  });
+}
+
+// Gives a bass track a note for every hit, keeping any notes it already has
+export function withBassLine(track: TrackData, settings: BassLineSettings = {}): TrackData {
+  if (track.notes && track.notes.length >= track.pattern.length && track.notes.every(Boolean)) return track;
+  const generated = generateBassLine(track.pattern, settings);
+  return { ...track, notes: generated.map((note, index) => track.notes?.[index] || note) };
+}
+
+/**
+ * Fills in notes for every bass track in a song that is missing some, in
+ * the song's key. Bass tracks are melodic, so hits without a note are silent.
+ */
+export function fillBassLines(song: SongData): SongData {
+  const settings = song.metadata.patternGeneration ?? {};
+  const tracks = Object.fromEntries(
+    Object.entries(song.tracks).map(([name, track]) => [
+      name,
+      resolveInstrumentKind(name) === "bass" ? withBassLine(track, settings) : track,
+    ])
+  );
+  return { ...song, tracks };
+}
@@ -0,0 +1,82 @@
+import type { SectionInfo } from "./arrangement";
+import type { InstrumentKind } from "./instrumentKinds";
+
+// Playhead position, fired on every 16th as it sounds
+export interface StepEvent {
+  // Step within the song (0 to steps - 1)
+  step: number;
+  // Step within the whole polymeter cycle, so tracks with their own loop
+  // length can be drawn wrapping independently (cycleStep % length)
+  cycleStep: number;
+  // 1-based bar of the song and quarter-note beat within it
+  bar: number;
+  beat: number;
+}
+
+export interface BarEvent {
+  bar: number;
+}
+
+// A track voice firing
+export interface NoteEvent {
+  track: string;
+  kind: InstrumentKind;
+  // Pitch for melodic tracks
+  note?: string;
+  velocity: number;
+  ghost: boolean;
+  step: number;
+}
+
+// A change queued to land on an upcoming bar line
+export interface PendingChange {
+  id: number;
+  // What is changing: a track name, "tracks", "arrangement" or "length"
+  label: string;
+  // Set when the change only touches one track
+  track?: string;
+}
+
+export interface EngineEventMap {
+  step: StepEvent;
+  bar: BarEvent;
+  section: SectionInfo;
+  note: NoteEvent;
+  // The queue of pending changes, whenever it grows or a change lands
+  pending: PendingChange[];
+  play: void;
+  pause: void;
+  stop: void;
+}
+
+export type EngineEventName = keyof EngineEventMap;
+export type EngineListener<E extends EngineEventName> = (payload: EngineEventMap[E]) => void;
+
+type ListenerSets<Events> = { [E in keyof Events]?: Set<(payload: Events[E]) => void> };
+
+/**
+ * Minimal typed event emitter. `on` returns an unsubscribe function so
+ * React effects can clean up with a single return.
+ */
+export class TypedEmitter<Events> {
+  private listeners: ListenerSets<Events> = {};
+
+  on<E extends keyof Events>(event: E, listener: (payload: Events[E]) => void): () => void {
+    const listeners = this.listeners[event] ?? new Set();
+    listeners.add(listener);
+    this.listeners[event] = listeners;
+    return () => this.off(event, listener);
+  }
+
+  off<E extends keyof Events>(event: E, listener: (payload: Events[E]) => void): void {
+    this.listeners[event]?.delete(listener);
+  }
+
+  emit<E extends keyof Events>(event: E, payload: Events[E]): void {
+    this.listeners[event]?.forEach((listener) => listener(payload));
+  }
+
+  clear(): void {
+    this.listeners = {};
+  }
+}
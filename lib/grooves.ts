@@ -0,0 +1,108 @@
+import { STEPS_PER_BAR } from "./arrangement";
+import type { PatternGeneration } from "./songSchema";
+
+/**
+ * A named feel: per-step timing offsets and velocity scaling over one bar
+ * of 16ths. Offsets are fractions of a step and only ever delay, so live
+ * playback never has to schedule a note before its step fires.
+ */
+export interface GrooveTemplate {
+  description: string;
+  timing: readonly number[];
+  velocity: readonly number[];
+}
+
+// How a song's patternGeneration settings move one hit
+export interface GrooveAdjustment {
+  // Delay in fractions of a step
+  offset: number;
+  velocity: number;
+}
+
+export type Groove = (track: string, step: number, velocity: number) => GrooveAdjustment;
+
+// Off-beat delay at swing 1, as a fraction of a step (0.5 swing is a triplet feel, like Tone.Transport.swing)
+const MAX_SWING_DELAY = 2 / 3;
+// Largest random delay humanization 1 adds, as a fraction of a step
+const MAX_HUMANIZE_DELAY = 0.12;
+// Largest velocity change humanization 1 adds, either way
+const MAX_HUMANIZE_VELOCITY = 0.15;
+
+export const GROOVE_TEMPLATES: Record<string, GrooveTemplate> = {
+  straight: {
+    description: "On the grid, even velocities",
+    timing: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
+    velocity: [1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1],
+  },
+  subtle_swing: {
+    description: "A light push on the off-16ths",
+    timing: [0, 0.08, 0, 0.08, 0, 0.08, 0, 0.08, 0, 0.08, 0, 0.08, 0, 0.08, 0, 0.08],
+    velocity: [1, 0.9, 0.95, 0.9, 1, 0.9, 0.95, 0.9, 1, 0.9, 0.95, 0.9, 1, 0.9, 0.95, 0.9],
+  },
+  mpc_swing: {
+    description: "Classic 58% drum machine shuffle",
+    timing: [0, 0.16, 0, 0.16, 0, 0.16, 0, 0.16, 0, 0.16, 0, 0.16, 0, 0.16, 0, 0.16],
+    velocity: [1, 0.8, 0.9, 0.8, 1, 0.8, 0.9, 0.8, 1, 0.8, 0.9, 0.8, 1, 0.8, 0.9, 0.8],
+  },
+  berlin_machine: {
+    description: "Tight and mechanical, with hard accents on the beat",
+    timing: [0, 0.03, 0, 0.03, 0, 0.03, 0, 0.03, 0, 0.03, 0, 0.03, 0, 0.03, 0, 0.03],
+    velocity: [1, 0.7, 0.85, 0.7, 1, 0.7, 0.85, 0.7, 1, 0.7, 0.85, 0.7, 1, 0.7, 0.85, 0.7],
+  },
+  detroit_shuffle: {
+    description: "Loose, rolling shuffle with a lazy second half",
+    timing: [0, 0.22, 0.02, 0.2, 0, 0.22, 0.04, 0.24, 0, 0.22, 0.02, 0.2, 0, 0.24, 0.06, 0.26],
+    velocity: [1, 0.65, 0.85, 0.7, 0.95, 0.65, 0.8, 0.75, 1, 0.65, 0.85, 0.7, 0.95, 0.7, 0.8, 0.8],
+  },
+  laid_back: {
+    description: "Everything but the downbeats sits behind the beat",
+    timing: [0, 0.12, 0.06, 0.12, 0, 0.12, 0.06, 0.12, 0, 0.12, 0.06, 0.12, 0, 0.12, 0.06, 0.12],
+    velocity: [1, 0.75, 0.9, 0.75, 1, 0.75, 0.9, 0.75, 1, 0.75, 0.9, 0.75, 1, 0.75, 0.9, 0.75],
+  },
+};
+
+export function getGrooveTemplate(name: string | undefined): GrooveTemplate | undefined {
+  return name && Object.prototype.hasOwnProperty.call(GROOVE_TEMPLATES, name) ? GROOVE_TEMPLATES[name] : undefined;
+}
+
+// Deterministic 0–1 noise per track and step, so humanized songs play the same every time
+function seededRandom(seed: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    hash = Math.imul(hash ^ seed.charCodeAt(i), 16777619);
+  }
+  // murmur3 finaliser to spread nearby seeds apart
+  hash = Math.imul(hash ^ (hash >>> 16), 0x85ebca6b);
+  hash = Math.imul(hash ^ (hash >>> 13), 0xc2b2ae35);
+  return ((hash ^ (hash >>> 16)) >>> 0) / 4294967296;
+}
+
+/**
+ * Builds the groove for a song from metadata.patternGeneration:
+ * `grooveTemplate` picks a template, `groove` sets how much of it applies
+ * (default all of it), `swing` delays off-beat 16ths and `humanization`
+ * adds seeded timing and velocity variation. Pure and repeatable.
+ */
+export function createGroove(settings: PatternGeneration = {}): Groove {
+  const template = getGrooveTemplate(settings.grooveTemplate);
+  const amount = settings.groove ?? 1;
+  const swing = settings.swing ?? 0;
+  const humanization = settings.humanization ?? 0;
+
+  return (track, step, velocity) => {
+    const barStep = step % STEPS_PER_BAR;
+    let offset = step % 2 === 1 ? swing * MAX_SWING_DELAY : 0;
+    let scale = 1;
+
+    if (template) {
+      offset += template.timing[barStep % template.timing.length] * amount;
+      scale += (template.velocity[barStep % template.velocity.length] - 1) * amount;
+    }
+    if (humanization > 0) {
+      offset += seededRandom(`${track}:${step}:time`) * humanization * MAX_HUMANIZE_DELAY;
+      scale += (seededRandom(`${track}:${step}:velocity`) * 2 - 1) * humanization * MAX_HUMANIZE_VELOCITY;
+    }
+
+    return { offset, velocity: Math.min(1, Math.max(0, velocity * scale)) };
+  };
+}
@@ -0,0 +1,51 @@
+// Instrument families a track name can resolve to
+export type InstrumentKind =
+  | "kick"
+  | "snare"
+  | "hihat"
+  | "bass"
+  | "acid"
+  | "lead"
+  | "perc";
+
+/**
+ * How an instrument family is played, independent of how it is synthesized.
+ * Kept free of Tone.js so timeline compilation stays pure.
+ */
+export interface InstrumentProfile {
+  // Melodic instruments need a note to sound; drums ignore it
+  melodic: boolean;
+  // Velocity used when a track stores no per-step velocity
+  defaultVelocity: number;
+  // Note length in 16th-note steps
+  gateSteps: number;
+}
+
+export const INSTRUMENT_PROFILES: Record<InstrumentKind, InstrumentProfile> = {
+  kick: { melodic: false, defaultVelocity: 1, gateSteps: 2 },
+  snare: { melodic: false, defaultVelocity: 1, gateSteps: 2 },
+  hihat: { melodic: false, defaultVelocity: 1, gateSteps: 1 },
+  perc: { melodic: false, defaultVelocity: 1, gateSteps: 2 },
+  bass: { melodic: true, defaultVelocity: 0.9, gateSteps: 2 },
+  acid: { melodic: true, defaultVelocity: 0.8, gateSteps: 2 },
+  lead: { melodic: true, defaultVelocity: 0.6, gateSteps: 8 },
+};
+
+// Track names are matched in order, so "acid" wins over "bass" in "acidbass"
+const INSTRUMENT_KIND_MATCHERS: ReadonlyArray<[RegExp, InstrumentKind]> = [
+  [/kick/i, "kick"],
+  [/snare|clap/i, "snare"],
+  [/hat|ride|cymbal/i, "hihat"],
+  [/acid|303/i, "acid"],
+  [/bass|rumble|sub/i, "bass"],
+  [/lead|pad|chord|synth/i, "lead"],
+];
+
+/**
+ * Resolves which instrument family a track plays from its name,
+ * e.g. "hihat909" → "hihat", "rumble" → "bass". Unknown names become "perc".
+ */
+export function resolveInstrumentKind(trackName: string): InstrumentKind {
+  const match = INSTRUMENT_KIND_MATCHERS.find(([pattern]) => pattern.test(trackName));
+  return match ? match[1] : "perc";
+}
@@ -0,0 +1,450 @@
+import * as Tone from "tone";
+import type { AutomatableParam } from "./automation";
+import { INSTRUMENT_PROFILES, resolveInstrumentKind, type InstrumentKind } from "./instrumentKinds";
+import { SamplePlayer } from "./samplePlayer";
+import { soundBank, type SoundPreset } from "./sound-bank";
+import type { SampleConfig, Synthesis, TrackData } from "./songSchema";
+import type { NoteArticulation } from "./songTimeline";
+
+export type { InstrumentKind };
+
+type ToneSynth =
+  | Tone.MembraneSynth
+  | Tone.NoiseSynth
+  | Tone.MetalSynth
+  | Tone.Synth
+  | Tone.MonoSynth
+  | Tone.PolySynth;
+
+type VoiceSynth = ToneSynth | SamplePlayer;
+
+// Option shape each synth accepts in its constructor and set()
+type SynthOptions<T extends ToneSynth> = Parameters<T["set"]>[0];
+
+type SynthesisParams = NonNullable<Synthesis>;
+type SynthesisVariant = NonNullable<SynthesisParams["variant"]>;
+
+/**
+ * A playable voice for a single song track, so the engine can trigger and
+ * dispose it without knowing which instrument sits behind it. Level, pan
+ * and mute live on the track's mixer channel.
+ */
+export interface TrackVoice {
+  kind: InstrumentKind;
+  synth: VoiceSynth;
+  // Duration is in seconds; drums ignore `note`. Voices that can't slide play slid notes as new ones
+  trigger(
+    time: number,
+    note: string | undefined,
+    velocity: number,
+    duration: number,
+    articulation?: NoteArticulation
+  ): void;
+  // Re-apply a track's synthesis block to the running synth
+  configure(synthesis: Synthesis): void;
+  // Synth parameters automation lanes can move, e.g. the acid filter's resonance
+  params: Partial<Record<string, AutomatableParam>>;
+  dispose(): void;
+}
+
+/**
+ * Builds the voice for a track, wired into `destination` (its mixer channel).
+ * Swap this out to give the engine different instruments without touching
+ * the sequencing code.
+ */
+export type InstrumentFactory = (
+  trackName: string,
+  track: TrackData,
+  destination: Tone.InputNode
+) => TrackVoice;
+
+// Configuration constants
+const KICK_NOTE = "C1";
+const HIHAT_NOTE = "C6";
+const PERC_NOTE = "C2";
+const NOISE_TYPES = ["white", "pink", "brown"] as const;
+// Glide time into slid notes, close to a TB-303's
+const SLIDE_TIME = 0.06;
+// Accented notes play this much harder, up to full velocity
+const ACCENT_GAIN = 1.3;
+// Peak of the acid filter envelope on accented notes; regular notes peak at 1
+const ACCENT_FILTER_LEVEL = 1.6;
+
+// The built-in voicings, used for anything a track's synthesis block leaves out
+const DEFAULT_SYNTHESIS: Record<InstrumentKind, SynthesisParams> = {
+  kick: {
+    oscillator: { type: "sine" },
+    envelope: { attack: 0.001, decay: 0.4, sustain: 0.01, release: 1.4 },
+    custom: { pitchDecay: 0.05, octaves: 4 },
+  },
+  snare: {
+    oscillator: { type: "pink" },
+    envelope: { attack: 0.001, decay: 0.2, sustain: 0, release: 0.2 },
+  },
+  // Same voicing as the 'synco-hihat' sound bank preset
+  hihat: {
+    envelope: { attack: 0.001, decay: 0.1, sustain: 0, release: 0.01 },
+    custom: { harmonicity: 5.1, modulationIndex: 32, resonance: 4000, octaves: 1.5 },
+  },
+  perc: {
+    oscillator: { type: "triangle" },
+    envelope: { attack: 0.001, decay: 0.2, sustain: 0, release: 0.5 },
+    custom: { pitchDecay: 0.08, octaves: 2 },
+  },
+  bass: {
+    oscillator: { type: "sawtooth" },
+    envelope: { attack: 0.01, decay: 0.1, sustain: 0.5, release: 0.4 },
+  },
+  acid: {
+    oscillator: { type: "sawtooth" },
+    envelope: { attack: 0.01, decay: 0.2, sustain: 0.3, release: 0.2 },
+    filterEnvelope: {
+      attack: 0.01,
+      decay: 0.2,
+      sustain: 0.4,
+      release: 0.2,
+      baseFrequency: 200,
+      octaves: 3,
+    },
+    filter: { type: "lowpass", frequency: 200, Q: 6, rolloff: -24 },
+  },
+  lead: {
+    oscillator: { type: "sawtooth" },
+    // Slow attack and long release for a pad-like sound
+    envelope: { attack: 0.1, decay: 0.3, sustain: 0.6, release: 1.0 },
+  },
+};
+
+// Character presets layered between the defaults and the track's own values
+const VARIANT_SYNTHESIS: Partial<Record<InstrumentKind, Partial<Record<SynthesisVariant, SynthesisParams>>>> = {
+  acid: {
+    deep: {
+      filterEnvelope: { attack: 0.02, decay: 0.3, sustain: 0.3, release: 0.3, baseFrequency: 120, octaves: 2 },
+      filter: { type: "lowpass", frequency: 120, Q: 4, rolloff: -24 },
+    },
+    screamer: {
+      oscillator: { type: "square" },
+      filterEnvelope: { attack: 0.005, decay: 0.15, sustain: 0.2, release: 0.1, baseFrequency: 300, octaves: 5 },
+      filter: { type: "lowpass", frequency: 300, Q: 14, rolloff: -24 },
+    },
+    liquid: {
+      envelope: { attack: 0.05, decay: 0.3, sustain: 0.5, release: 0.6 },
+      filterEnvelope: { attack: 0.1, decay: 0.5, sustain: 0.5, release: 0.6, baseFrequency: 400, octaves: 2 },
+      filter: { type: "lowpass", frequency: 400, Q: 3, rolloff: -12 },
+    },
+  },
+  lead: {
+    deep: {
+      oscillator: { type: "triangle" },
+      envelope: { attack: 0.2, decay: 0.4, sustain: 0.7, release: 1.5 },
+    },
+    screamer: {
+      oscillator: { type: "square" },
+      envelope: { attack: 0.005, decay: 0.2, sustain: 0.7, release: 0.4 },
+    },
+    liquid: {
+      oscillator: { type: "sine" },
+      envelope: { attack: 0.3, decay: 0.5, sustain: 0.7, release: 2.0 },
+    },
+    stab: {
+      envelope: { attack: 0.001, decay: 0.1, sustain: 0, release: 0.1 },
+    },
+    pluck: {
+      oscillator: { type: "triangle" },
+      envelope: { attack: 0.001, decay: 0.2, sustain: 0, release: 0.3 },
+    },
+    pad: {
+      envelope: { attack: 0.5, decay: 0.5, sustain: 0.8, release: 2.0 },
+    },
+  },
+};
+
+/**
+ * Layers a track's synthesis block over its variant and the built-in
+ * defaults for the instrument, so every parameter has a value.
+ */
+export function resolveSynthesis(kind: InstrumentKind, synthesis?: Synthesis): SynthesisParams {
+  const variant = synthesis?.variant ? VARIANT_SYNTHESIS[kind]?.[synthesis.variant] : undefined;
+  return [variant, synthesis].reduce<SynthesisParams>((resolved, layer) => {
+    if (!layer) return resolved;
+    return {
+      variant: layer.variant ?? resolved.variant,
+      oscillator: { ...resolved.oscillator, ...layer.oscillator },
+      envelope: layer.envelope ?? resolved.envelope,
+      filterEnvelope: layer.filterEnvelope ?? resolved.filterEnvelope,
+      filter: layer.filter ?? resolved.filter,
+      custom: { ...resolved.custom, ...layer.custom },
+    };
+  }, DEFAULT_SYNTHESIS[kind]);
+}
+
+function isNoiseType(type: string | undefined): type is (typeof NOISE_TYPES)[number] {
+  return NOISE_TYPES.some((noiseType) => noiseType === type);
+}
+
+// Noise colours only make sense for NoiseSynth, so oscillators skip them
+function oscillatorType(synthesis: SynthesisParams) {
+  const type = synthesis.oscillator?.type;
+  return type && !isNoiseType(type) ? type : undefined;
+}
+
+function customNumber(synthesis: SynthesisParams, key: string): number | undefined {
+  const value = synthesis.custom?.[key];
+  return typeof value === "number" ? value : undefined;
+}
+
+function membraneOptions(synthesis: SynthesisParams): SynthOptions<Tone.MembraneSynth> {
+  const type = oscillatorType(synthesis);
+  return {
+    pitchDecay: customNumber(synthesis, "pitchDecay"),
+    octaves: customNumber(synthesis, "octaves"),
+    ...(type && { oscillator: { type } as SynthOptions<Tone.MembraneSynth>["oscillator"] }),
+    envelope: synthesis.envelope,
+  };
+}
+
+function noiseOptions(synthesis: SynthesisParams): SynthOptions<Tone.NoiseSynth> {
+  const type = synthesis.oscillator?.type;
+  return {
+    ...(isNoiseType(type) && { noise: { type } }),
+    envelope: synthesis.envelope,
+  };
+}
+
+function metalOptions(synthesis: SynthesisParams): SynthOptions<Tone.MetalSynth> {
+  return {
+    envelope: synthesis.envelope,
+    harmonicity: customNumber(synthesis, "harmonicity"),
+    modulationIndex: customNumber(synthesis, "modulationIndex"),
+    resonance: customNumber(synthesis, "resonance"),
+    octaves: customNumber(synthesis, "octaves"),
+  };
+}
+
+function synthOptions(synthesis: SynthesisParams): SynthOptions<Tone.Synth> {
+  const type = oscillatorType(synthesis);
+  return {
+    ...(type && { oscillator: { type } as SynthOptions<Tone.Synth>["oscillator"] }),
+    envelope: synthesis.envelope,
+  };
+}
+
+function monoOptions(synthesis: SynthesisParams): SynthOptions<Tone.MonoSynth> {
+  const type = oscillatorType(synthesis);
+  return {
+    ...(type && { oscillator: { type } as SynthOptions<Tone.MonoSynth>["oscillator"] }),
+    envelope: synthesis.envelope,
+    filterEnvelope: synthesis.filterEnvelope,
+    filter: synthesis.filter && {
+      type: synthesis.filter.type,
+      Q: synthesis.filter.Q,
+      rolloff: synthesis.filter.rolloff,
+    },
+  };
+}
+
+// Drop keys the synthesis block left undefined so Tone keeps its own defaults
+function defined<T extends object>(options: T): T {
+  return Object.fromEntries(
+    Object.entries(options).filter(([, value]) => value !== undefined)
+  ) as T;
+}
+
+/**
+ * Plays a note on a monophonic synth. A slid note glides the held pitch
+ * instead of retriggering, and the note that starts a run of slides is held
+ * until the run ends.
+ */
+function playMonophonic(
+  synth: Tone.Synth | Tone.MonoSynth,
+  time: number,
+  note: string,
+  velocity: number,
+  duration: number,
+  { slide, slideDuration }: NoteArticulation
+): void {
+  if (slide) {
+    synth.portamento = SLIDE_TIME;
+    synth.setNote(note, time);
+    return;
+  }
+  synth.portamento = 0;
+  synth.triggerAttackRelease(note, slideDuration ?? duration, time, velocity);
+}
+
+function createVoice(
+  kind: InstrumentKind,
+  synth: VoiceSynth,
+  trigger: TrackVoice["trigger"],
+  configure: (synthesis: SynthesisParams) => void,
+  params: TrackVoice["params"] = {}
+): TrackVoice {
+  return {
+    kind,
+    synth,
+    trigger: (time, note, velocity, duration, articulation = {}) => {
+      const accented = articulation.accent ? Math.min(1, velocity * ACCENT_GAIN) : velocity;
+      trigger(time, note, accented, duration, articulation);
+    },
+    configure: (synthesis) => configure(resolveSynthesis(kind, synthesis)),
+    params,
+    dispose: () => synth.dispose(),
+  };
+}
+
+function createKick(synthesis: SynthesisParams, destination: Tone.InputNode): TrackVoice {
+  const synth = new Tone.MembraneSynth(defined(membraneOptions(synthesis))).connect(destination);
+
+  return createVoice("kick", synth, (time, _note, velocity, duration) => {
+    synth.triggerAttackRelease(KICK_NOTE, duration, time, velocity);
+  }, (resolved) => synth.set(defined(membraneOptions(resolved))));
+}
+
+function createSnare(synthesis: SynthesisParams, destination: Tone.InputNode): TrackVoice {
+  const synth = new Tone.NoiseSynth(defined(noiseOptions(synthesis))).connect(destination);
+
+  return createVoice("snare", synth, (time, _note, velocity, duration) => {
+    synth.triggerAttackRelease(duration, time, velocity);
+  }, (resolved) => synth.set(defined(noiseOptions(resolved))));
+}
+
+function createHihat(synthesis: SynthesisParams, destination: Tone.InputNode): TrackVoice {
+  const synth = new Tone.MetalSynth(defined(metalOptions(synthesis))).connect(destination);
+
+  return createVoice("hihat", synth, (time, _note, velocity, duration) => {
+    synth.triggerAttackRelease(HIHAT_NOTE, duration, time, velocity);
+  }, (resolved) => synth.set(defined(metalOptions(resolved))));
+}
+
+function createPerc(synthesis: SynthesisParams, destination: Tone.InputNode): TrackVoice {
+  const synth = new Tone.MembraneSynth(defined(membraneOptions(synthesis))).connect(destination);
+
+  return createVoice("perc", synth, (time, note, velocity, duration) => {
+    synth.triggerAttackRelease(note || PERC_NOTE, duration, time, velocity);
+  }, (resolved) => synth.set(defined(membraneOptions(resolved))));
+}
+
+function createBass(synthesis: SynthesisParams, destination: Tone.InputNode): TrackVoice {
+  const synth = new Tone.Synth(defined(synthOptions(synthesis))).connect(destination);
+
+  return createVoice("bass", synth, (time, note, velocity, duration, articulation = {}) => {
+    if (!note) return;
+    playMonophonic(synth, time, note, velocity, duration, articulation);
+  }, (resolved) => synth.set(defined(synthOptions(resolved))), { detune: synth.detune });
+}
+
+function createAcid(synthesis: SynthesisParams, destination: Tone.InputNode): TrackVoice {
+  const synth = new Tone.MonoSynth(defined(monoOptions(synthesis))).connect(destination);
+
+  return createVoice("acid", synth, (time, note, velocity, duration, articulation = {}) => {
+    if (!note) return;
+    playMonophonic(synth, time, note, velocity, duration, articulation);
+    if (articulation.accent && !articulation.slide) {
+      // Rerun the filter envelope with a higher peak for the accent's squelch
+      synth.filterEnvelope.cancel(time);
+      synth.filterEnvelope.triggerAttack(time, ACCENT_FILTER_LEVEL);
+      synth.filterEnvelope.triggerRelease(time + (articulation.slideDuration ?? duration));
+    }
+  }, (resolved) => synth.set(defined(monoOptions(resolved))), {
+    // The filter envelope drives the cutoff, so lanes move its resonance; "cutoff" uses the strip filter
+    resonance: synth.filter.Q,
+    detune: synth.detune,
+  });
+}
+
+function createLead(synthesis: SynthesisParams, destination: Tone.InputNode): TrackVoice {
+  // Polyphonic pad synth for lush lead sounds
+  const synth = new Tone.PolySynth(Tone.Synth, defined(synthOptions(synthesis))).connect(destination);
+
+  // Set polyphony to 8 voices for rich chords
+  synth.maxPolyphony = 8;
+
+  return createVoice("lead", synth, (time, note, velocity, duration) => {
+    if (!note) return;
+    synth.triggerAttackRelease(note, duration, time, velocity);
+  }, (resolved) => synth.set(defined(synthOptions(resolved))));
+}
+
+// Samples replace the synth entirely, so synthesis blocks don't apply to them
+function createSampleVoice(kind: InstrumentKind, sample: SampleConfig, destination: Tone.InputNode): TrackVoice {
+  const player = new SamplePlayer(sample).connect(destination);
+  const { melodic } = INSTRUMENT_PROFILES[kind];
+
+  return createVoice(kind, player, (time, note, velocity, duration) => {
+    if (melodic && !note) return;
+    player.triggerAttackRelease(note, duration, time, velocity);
+  }, () => {});
+}
+
+/**
+ * A sound bank preset: its synth through its effect chain, trimmed by the
+ * preset's linear volume. Drums play the preset's own pitch; melodic
+ * tracks play their notes.
+ */
+function createPresetVoice(kind: InstrumentKind, preset: SoundPreset, destination: Tone.InputNode): TrackVoice {
+  const synth = soundBank.createSynth(preset.synth);
+  const effects = preset.effects.map((effect) => soundBank.createEffect(effect));
+  const level = new Tone.Gain(preset.volume).connect(destination);
+  synth.connect(effects[0] ?? level);
+  effects.forEach((effect, index) => effect.connect(effects[index + 1] ?? level));
+
+  const { melodic } = INSTRUMENT_PROFILES[kind];
+  const pitch = preset.synth.frequency ?? preset.synth.note;
+  const voice = createVoice(kind, synth, (time, note, velocity, duration, articulation = {}) => {
+    if (melodic && !note) return;
+    const played = (melodic ? note : pitch ?? note) ?? PERC_NOTE;
+    if (synth instanceof Tone.NoiseSynth) {
+      synth.triggerAttackRelease(duration, time, velocity);
+    } else if (synth instanceof SamplePlayer) {
+      synth.triggerAttackRelease(melodic || pitch ? played : undefined, duration, time, velocity);
+    } else if (synth instanceof Tone.Synth) {
+      // Includes MembraneSynth
+      playMonophonic(synth, time, played, velocity, duration, articulation);
+    } else {
+      synth.triggerAttackRelease(played, duration, time, velocity);
+    }
+  }, () => {}, synth instanceof Tone.Synth ? { detune: synth.detune } : {});
+
+  return {
+    ...voice,
+    dispose: () => {
+      voice.dispose();
+      effects.forEach((effect) => effect.dispose());
+      level.dispose();
+    },
+  };
+}
+
+const INSTRUMENT_BUILDERS: Record<
+  InstrumentKind,
+  (synthesis: SynthesisParams, destination: Tone.InputNode) => TrackVoice
+> = {
+  kick: createKick,
+  snare: createSnare,
+  hihat: createHihat,
+  bass: createBass,
+  acid: createAcid,
+  lead: createLead,
+  perc: createPerc,
+};
+
+/**
+ * Default instrument factory: plays the track's sound bank preset or samples
+ * when it has them, otherwise picks the built-in voice for the track's
+ * instrument family and shapes it with the track's synthesis block.
+ */
+export const createInstrument: InstrumentFactory = (trackName, track, destination) => {
+  const kind = resolveInstrumentKind(trackName);
+  // An embedded definition plays the same wherever the song goes; otherwise look the id up in the bank
+  const preset = track.presetData?.id === track.preset ? track.presetData : soundBank.getPreset(track.preset ?? "");
+  if (preset) {
+    return createPresetVoice(kind, preset, destination);
+  }
+  if (track.preset) {
+    console.warn(`Unknown sound preset "${track.preset}" on ${trackName}, using the built-in voice`);
+  }
+  if (track.sample) {
+    return createSampleVoice(kind, track.sample, destination);
+  }
+  return INSTRUMENT_BUILDERS[kind](resolveSynthesis(kind, track.synthesis), destination);
+};
@@ -0,0 +1,240 @@
+import * as Tone from "tone";
+import type { AutomatableParam } from "./automation";
+import type { SongData } from "./songSchema";
+
+export type SongEffects = SongData["effects"];
+export type FilterSettings = SongEffects["filter"];
+export type ReverbSettings = SongEffects["reverb"];
+export type DelaySettings = NonNullable<SongEffects["delay"]>;
+export type SidechainSettings = NonNullable<SongEffects["sidechain"]>;
+
+const FILTER_TYPES: readonly BiquadFilterType[] = [
+  "lowpass",
+  "highpass",
+  "bandpass",
+  "lowshelf",
+  "highshelf",
+  "notch",
+  "allpass",
+  "peaking",
+];
+// Tone.Reverb cannot generate an impulse response with zero decay
+const MIN_REVERB_DECAY = 0.1;
+// Pre-delay (seconds) at roomSize 1; bigger rooms take longer to answer
+const MAX_PRE_DELAY = 0.1;
+
+// Used until a song sets its own delay; tracks only hear it through their delay send
+export const DEFAULT_DELAY: DelaySettings = {
+  time: "8n.",
+  feedback: 0.35,
+};
+
+// Neutral settings: filter fully open, reverb send closed
+export const DEFAULT_EFFECTS: SongEffects = {
+  filter: {
+    cutoff: 1,
+    type: "lowpass",
+    startFreq: 20000,
+    endFreq: 20000,
+  },
+  reverb: {
+    wet: 0,
+    roomSize: 0.5,
+    decay: 1.5,
+  },
+};
+
+// Delay time in seconds at `bpm`: note values like "8n." follow the tempo, numbers are seconds already
+function delaySeconds(time: DelaySettings["time"], bpm: number): number {
+  if (typeof time === "number") return time;
+  return (Tone.Time(time).toTicks() / Tone.getTransport().PPQ) * (60 / bpm);
+}
+
+function toFilterType(type: string): BiquadFilterType {
+  return FILTER_TYPES.find((filterType) => filterType === type) ?? "lowpass";
+}
+
+/**
+ * Master effects bus every track channel feeds into. Plays SongData.effects:
+ * a filter that sweeps from startFreq to endFreq over the song, followed by
+ * a reverb send mixed back in alongside the dry signal. Track sends reach
+ * the reverb and a tempo-synced delay through their own inputs.
+ *
+ *   input → filter ─┬──────────────────────→ destination
+ *                   └→ send (wet) → reverb → destination
+ *   reverbInput ──────────────────→ reverb
+ *   delayInput → delay ──────────────────→ destination
+ */
+export class MasterBus {
+  readonly input: Tone.Gain;
+  readonly reverbInput: Tone.Gain;
+  readonly delayInput: Tone.Gain;
+  private filter: Tone.Filter;
+  private reverbSend: Tone.Gain;
+  private reverb: Tone.Reverb;
+  private delay: Tone.FeedbackDelay;
+  private effects: SongEffects;
+  // The sweep now running, so filter edits can pick it up where it has got to
+  private sweep: { time: number; duration: number } | null = null;
+  // Song tempo the delay time is measured against
+  private bpm: number;
+
+  constructor(
+    effects: SongEffects = DEFAULT_EFFECTS,
+    destination: Tone.InputNode = Tone.getDestination(),
+    bpm = 120
+  ) {
+    this.bpm = bpm;
+    const delay = effects.delay ?? DEFAULT_DELAY;
+    this.effects = {
+      filter: { ...effects.filter },
+      reverb: { ...effects.reverb },
+      ...(effects.delay ? { delay: { ...effects.delay } } : {}),
+    };
+
+    this.input = new Tone.Gain(1);
+    this.filter = new Tone.Filter(effects.filter.startFreq, toFilterType(effects.filter.type));
+    this.reverbSend = new Tone.Gain(effects.reverb.wet);
+    this.reverb = new Tone.Reverb({
+      decay: Math.max(MIN_REVERB_DECAY, effects.reverb.decay),
+      preDelay: effects.reverb.roomSize * MAX_PRE_DELAY,
+      wet: 1,
+    });
+    this.reverbInput = new Tone.Gain(1);
+    this.delayInput = new Tone.Gain(1);
+    this.delay = new Tone.FeedbackDelay({ delayTime: delaySeconds(delay.time, bpm), feedback: delay.feedback, wet: 1 });
+
+    this.input.connect(this.filter);
+    this.filter.connect(destination);
+    this.filter.connect(this.reverbSend);
+    this.reverbSend.connect(this.reverb);
+    this.reverbInput.connect(this.reverb);
+    this.reverb.connect(destination);
+    this.delayInput.connect(this.delay);
+    this.delay.connect(destination);
+  }
+
+  // Resolves once the reverb impulse response has been generated
+  get ready(): Promise<void> {
+    return this.reverb.ready;
+  }
+
+  setEffects(effects: SongEffects): void {
+    this.setFilter(effects.filter);
+    this.setReverb(effects.reverb);
+    if (effects.delay) {
+      this.setDelay(effects.delay);
+    } else {
+      // Back to the default without writing it into the song
+      this.setDelay(DEFAULT_DELAY);
+      delete this.effects.delay;
+    }
+  }
+
+  // New frequencies re-plan the running sweep from now on, at the frequency it has reached
+  setFilter(filter: Partial<FilterSettings>): void {
+    const previous = this.effects.filter;
+    this.effects.filter = { ...previous, ...filter };
+    this.filter.type = toFilterType(this.effects.filter.type);
+    if (this.effects.filter.startFreq !== previous.startFreq || this.effects.filter.endFreq !== previous.endFreq) {
+      this.scheduleSweep(this.filter.now());
+    }
+  }
+
+  setReverb(reverb: Partial<ReverbSettings>): void {
+    const previous = this.effects.reverb;
+    this.effects.reverb = { ...previous, ...reverb };
+    const { wet, roomSize, decay } = this.effects.reverb;
+
+    this.reverbSend.gain.value = wet;
+    // Changing decay or pre-delay regenerates the impulse response, so only do it when they move
+    if (decay !== previous.decay) {
+      this.reverb.decay = Math.max(MIN_REVERB_DECAY, decay);
+    }
+    if (roomSize !== previous.roomSize) {
+      this.reverb.preDelay = roomSize * MAX_PRE_DELAY;
+    }
+  }
+
+  setDelay(delay: Partial<DelaySettings>): void {
+    const { time, feedback } = { ...DEFAULT_DELAY, ...this.effects.delay, ...delay };
+    this.effects.delay = { time, feedback };
+    this.delay.delayTime.value = delaySeconds(time, this.bpm);
+    this.delay.feedback.value = feedback;
+  }
+
+  /**
+   * Keeps the delay in time with the song: `bpm` from `time` on (now by
+   * default), ramping there from the previous tempo if `ramp` is set.
+   */
+  setTempo(bpm: number, time = this.delay.now(), ramp = false): void {
+    this.bpm = bpm;
+    const delayTime = this.delay.delayTime;
+    const seconds = delaySeconds((this.effects.delay ?? DEFAULT_DELAY).time, bpm);
+    if (ramp) {
+      delayTime.linearRampToValueAtTime(seconds, time);
+    } else {
+      delayTime.cancelScheduledValues(time);
+      delayTime.setValueAtTime(seconds, time);
+    }
+  }
+
+  /**
+   * Schedules the filter sweep from startFreq to endFreq, starting at `time`
+   * and lasting `duration` seconds (one pass through the song).
+   */
+  startSweep(time: number, duration: number): void {
+    this.sweep = { time, duration };
+    this.scheduleSweep(time);
+  }
+
+  // Lays the sweep out from `from` on, starting at the frequency it has reached by then
+  private scheduleSweep(from: number): void {
+    const { startFreq, endFreq } = this.effects.filter;
+    const frequency = this.filter.frequency;
+    const { time, duration } = this.sweep ?? { time: from, duration: 0 };
+    const end = time + duration;
+    const progress = end > from ? Math.max(0, from - time) / duration : 1;
+
+    frequency.cancelScheduledValues(from);
+    frequency.setValueAtTime(startFreq * (endFreq / startFreq) ** progress, from);
+    if (startFreq !== endFreq && progress < 1) {
+      frequency.exponentialRampToValueAtTime(endFreq, end);
+    }
+  }
+
+  // The bus parameter a master automation lane moves (see AUTOMATION_PARAMETERS)
+  getParam(parameter: string): AutomatableParam | undefined {
+    switch (parameter) {
+      case "filter.frequency":
+        return this.filter.frequency;
+      case "filter.Q":
+        return this.filter.Q;
+      case "reverb.wet":
+        return this.reverbSend.gain;
+      case "delay.feedback":
+        return this.delay.feedback;
+      default:
+        return undefined;
+    }
+  }
+
+  // Current settings in SongData.effects shape, ready to save or mint
+  getEffects(): SongEffects {
+    return {
+      filter: { ...this.effects.filter },
+      reverb: { ...this.effects.reverb },
+      ...(this.effects.delay ? { delay: { ...this.effects.delay } } : {}),
+    };
+  }
+
+  dispose(): void {
+    this.input.dispose();
+    this.reverbInput.dispose();
+    this.delayInput.dispose();
+    this.delay.dispose();
+    this.filter.dispose();
+    this.reverbSend.dispose();
+    this.reverb.dispose();
+  }
+}
@@ -0,0 +1,79 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { DEFAULT_EFFECTS } from "./masterBus";
+import { exportSongAsMidi, noteNameToMidi } from "./midiExport";
+import type { SongData, TrackData } from "./songSchema";
+
+function song(tracks: Record<string, TrackData>, metadata: Partial<SongData["metadata"]> = {}): SongData {
+  return {
+    metadata: {
+      title: "Test",
+      artist: "BaseDrum",
+      version: "1.0.0",
+      created: "2026-01-01T00:00:00.000Z",
+      bpm: 120,
+      bars: 1,
+      steps: 16,
+      format: "basedrum-v1",
+      ...metadata,
+    },
+    effects: DEFAULT_EFFECTS,
+    tracks,
+  };
+}
+
+// Whether `bytes` contains `sequence` anywhere
+function includesBytes(bytes: Uint8Array, sequence: number[]): boolean {
+  return bytes.some((_, start) => sequence.every((byte, i) => bytes[start + i] === byte));
+}
+
+function chunkCount(bytes: Uint8Array, type: string): number {
+  const id = Array.from(type, (char) => char.charCodeAt(0));
+  return bytes.filter((_, start) => id.every((byte, i) => bytes[start + i] === byte)).length;
+}
+
+describe("exportSongAsMidi", () => {
+  it("converts note names to MIDI numbers like Tone.js", () => {
+    assert.equal(noteNameToMidi("C4"), 60);
+    assert.equal(noteNameToMidi("A4"), 69);
+    assert.equal(noteNameToMidi("C#2"), 37);
+    assert.equal(noteNameToMidi("Eb1"), 27);
+    assert.equal(noteNameToMidi("H2"), null);
+    assert.equal(noteNameToMidi("C10"), null);
+  });
+
+  it("writes a type-1 file with a tempo track plus one track per song track", () => {
+    const bytes = exportSongAsMidi(
+      song({
+        kick: { pattern: [0], muted: false, volume: 0 },
+        lead: { pattern: [0], notes: ["C4"], muted: false, volume: 0 },
+      })
+    );
+
+    assert.deepEqual(Array.from(bytes.slice(0, 14)), [
+      ...Array.from("MThd", (char) => char.charCodeAt(0)),
+      0, 0, 0, 6,
+      // Format 1, 3 tracks, 480 ticks per quarter
+      0, 1, 0, 3, 0x01, 0xe0,
+    ]);
+    assert.equal(chunkCount(bytes, "MTrk"), 3);
+    // 120 BPM is 500000 microseconds per quarter
+    assert.ok(includesBytes(bytes, [0xff, 0x51, 0x03, 0x07, 0xa1, 0x20]));
+  });
+
+  it("puts drums on channel 10 as GM drum notes and melodic tracks on their own channel", () => {
+    const bytes = exportSongAsMidi(
+      song({
+        kick: { pattern: [0], velocity: [1], muted: false, volume: 0 },
+        clap: { pattern: [4], velocity: [1], muted: false, volume: 0 },
+        lead: { pattern: [0], notes: ["A4"], velocity: [1], muted: false, volume: 0 },
+      })
+    );
+
+    assert.ok(includesBytes(bytes, [0x99, 36, 127]));
+    assert.ok(includesBytes(bytes, [0x99, 39, 127]));
+    // The first melodic track gets channel 1, with its GM program
+    assert.ok(includesBytes(bytes, [0xc0, 80]));
+    assert.ok(includesBytes(bytes, [0x90, 69, 127]));
+  });
+});
@@ -0,0 +1,209 @@
+import { INSTRUMENT_PROFILES, resolveInstrumentKind, type InstrumentKind } from "./instrumentKinds";
+import type { SongData } from "./songSchema";
+import { compileSongToEvents, getSongLengthInSteps, type SongEvent } from "./songTimeline";
+import { TempoMap } from "./tempoMap";
+
+// Configuration constants
+const TICKS_PER_QUARTER = 480;
+const TICKS_PER_STEP = TICKS_PER_QUARTER / 4;
+const DRUM_CHANNEL = 9; // Channel 10 in 1-based numbering
+const MAX_CHANNELS = 16;
+
+// General MIDI drum notes per unpitched instrument family
+const GM_DRUM_NOTES: Partial<Record<InstrumentKind, number>> = {
+  kick: 36, // Bass Drum 1
+  snare: 38, // Acoustic Snare
+  hihat: 42, // Closed Hi-Hat
+};
+const GM_PERC_NOTE = 37; // Side Stick
+
+// Track names that deserve a more specific GM drum than their family
+const GM_DRUM_NAME_OVERRIDES: ReadonlyArray<[RegExp, number]> = [
+  [/clap/i, 39], // Hand Clap
+  [/open/i, 46], // Open Hi-Hat
+  [/ride/i, 51], // Ride Cymbal 1
+  [/cymbal|crash/i, 49], // Crash Cymbal 1
+];
+
+// General MIDI programs (0-based) for melodic families
+const GM_PROGRAMS: Partial<Record<InstrumentKind, number>> = {
+  bass: 38, // Synth Bass 1
+  acid: 39, // Synth Bass 2
+  lead: 80, // Lead 1 (square)
+};
+
+const NOTE_OFFSETS: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+interface MidiMessage {
+  tick: number;
+  bytes: number[];
+}
+
+/**
+ * Converts scientific pitch notation to a MIDI note number, matching
+ * Tone.js where "C4" is 60. Returns null for anything unparseable.
+ */
+export function noteNameToMidi(note: string): number | null {
+  const match = /^([A-Ga-g])(#|b)?(-?\d+)$/.exec(note.trim());
+  if (!match) return null;
+  const [, letter, accidental, octave] = match;
+  const semitone = NOTE_OFFSETS[letter.toUpperCase()] + (accidental === "#" ? 1 : accidental === "b" ? -1 : 0);
+  const midi = (Number(octave) + 1) * 12 + semitone;
+  return midi >= 0 && midi <= 127 ? midi : null;
+}
+
+function resolveDrumNote(trackName: string, kind: InstrumentKind): number {
+  const override = GM_DRUM_NAME_OVERRIDES.find(([pattern]) => pattern.test(trackName));
+  return override ? override[1] : GM_DRUM_NOTES[kind] ?? GM_PERC_NOTE;
+}
+
+// CC7 (channel volume) is roughly 40·log10 of gain, so 0 dB is full scale
+function volumeToController(volume: number): number {
+  return Math.max(0, Math.min(127, Math.round(127 * 10 ** (volume / 40))));
+}
+
+function panToController(pan: number): number {
+  return Math.max(0, Math.min(127, Math.round(64 + pan * 63)));
+}
+
+function toVelocity(velocity: number): number {
+  return Math.max(1, Math.min(127, Math.round(velocity * 127)));
+}
+
+function writeVariableLength(value: number): number[] {
+  const bytes = [value & 0x7f];
+  let remaining = value >> 7;
+  while (remaining > 0) {
+    bytes.unshift((remaining & 0x7f) | 0x80);
+    remaining >>= 7;
+  }
+  return bytes;
+}
+
+function writeUint(value: number, byteCount: number): number[] {
+  return Array.from({ length: byteCount }, (_, i) => (value >> (8 * (byteCount - 1 - i))) & 0xff);
+}
+
+function textMeta(type: number, text: string): number[] {
+  const bytes = Array.from(new TextEncoder().encode(text));
+  return [0xff, type, ...writeVariableLength(bytes.length), ...bytes];
+}
+
+// Sorts messages into an MTrk chunk with delta times and an end-of-track marker
+function encodeTrack(messages: MidiMessage[]): number[] {
+  // Note-offs (and meta events) sort before note-ons on the same tick
+  const sorted = [...messages].sort((a, b) => a.tick - b.tick || noteOnRank(a) - noteOnRank(b));
+  const data: number[] = [];
+  let lastTick = 0;
+  sorted.forEach(({ tick, bytes }) => {
+    data.push(...writeVariableLength(tick - lastTick), ...bytes);
+    lastTick = tick;
+  });
+  data.push(0x00, 0xff, 0x2f, 0x00);
+  return [...Array.from("MTrk", (char) => char.charCodeAt(0)), ...writeUint(data.length, 4), ...data];
+}
+
+function tempoMeta(bpm: number): number[] {
+  return [0xff, 0x51, 0x03, ...writeUint(Math.round(60_000_000 / bpm), 3)];
+}
+
+// Tempo ramps become one tempo event per step, which DAWs play back smoothly enough
+function tempoMessages(tempo: TempoMap, totalSteps: number): MidiMessage[] {
+  const messages: MidiMessage[] = [{ tick: 0, bytes: tempoMeta(tempo.bpmAtStep(0)) }];
+  let previousStep = 0;
+  tempo.changes
+    .filter(({ step }) => step < totalSteps)
+    .forEach(({ step, bpm, ramp }) => {
+      if (ramp) {
+        for (let rampStep = previousStep + 1; rampStep < step; rampStep++) {
+          messages.push({ tick: rampStep * TICKS_PER_STEP, bytes: tempoMeta(tempo.bpmAtStep(rampStep)) });
+        }
+      }
+      messages.push({ tick: step * TICKS_PER_STEP, bytes: tempoMeta(bpm) });
+      previousStep = step;
+    });
+  return messages;
+}
+
+function noteOnRank({ bytes }: MidiMessage): number {
+  return (bytes[0] & 0xf0) === 0x90 ? 1 : 0;
+}
+
+/**
+ * Exports a song as a Type-1 Standard MIDI File: a tempo track (following
+ * metadata.tempoMap) and one track per SongData.tracks entry. Drums play GM
+ * drum notes on channel 10; melodic tracks play their stored notes on their
+ * own channels, with their track volume and pan as CC7 and CC10.
+ * Timing comes from the same timeline as playback, so arrangement, ghost
+ * notes, swing and groove carry over.
+ */
+export function exportSongAsMidi(song: SongData): Uint8Array {
+  const { title } = song.metadata;
+  const tempo = TempoMap.fromMetadata(song.metadata);
+  // Ticks follow the step grid, so convert seconds back through the tempo map
+  const secondsToTicks = (seconds: number, nearStep: number) => {
+    const stepStart = tempo.timeAtStep(nearStep);
+    const stepOffset = (seconds - stepStart) / tempo.stepDurationAt(nearStep);
+    return Math.round((nearStep + stepOffset) * TICKS_PER_STEP);
+  };
+
+  const eventsByTrack = new Map<string, SongEvent[]>(Object.keys(song.tracks).map((name) => [name, []]));
+  compileSongToEvents(song).forEach((event) => eventsByTrack.get(event.track)?.push(event));
+
+  const tempoTrack = encodeTrack([
+    { tick: 0, bytes: textMeta(0x03, title) },
+    ...tempoMessages(tempo, getSongLengthInSteps(song)),
+    // 4/4, 24 clocks per click, 8 32nds per quarter
+    { tick: 0, bytes: [0xff, 0x58, 0x04, 0x04, 0x02, 0x18, 0x08] },
+  ]);
+
+  let nextMelodicChannel = 0;
+  const trackChunks = Array.from(eventsByTrack, ([name, events]) => {
+    const kind = resolveInstrumentKind(name);
+    const melodic = INSTRUMENT_PROFILES[kind].melodic;
+    let channel = DRUM_CHANNEL;
+    if (melodic) {
+      channel = nextMelodicChannel;
+      // Skip the drum channel and wrap once every other channel is taken
+      nextMelodicChannel = (nextMelodicChannel + 1) % MAX_CHANNELS;
+      if (nextMelodicChannel === DRUM_CHANNEL) nextMelodicChannel++;
+    }
+
+    const messages: MidiMessage[] = [{ tick: 0, bytes: textMeta(0x03, name) }];
+    const program = GM_PROGRAMS[kind];
+    if (melodic && program !== undefined) {
+      messages.push({ tick: 0, bytes: [0xc0 | channel, program] });
+    }
+    // Drum tracks share channel 10, so only melodic channels carry their track's mix
+    if (melodic) {
+      const { volume, pan = 0 } = song.tracks[name];
+      messages.push(
+        { tick: 0, bytes: [0xb0 | channel, 0x07, volumeToController(volume)] },
+        { tick: 0, bytes: [0xb0 | channel, 0x0a, panToController(pan)] }
+      );
+    }
+
+    events.forEach((event) => {
+      const noteNumber = melodic ? noteNameToMidi(event.note ?? "") : resolveDrumNote(name, kind);
+      if (noteNumber === null) return;
+      const start = secondsToTicks(event.time, event.step);
+      const end = Math.max(start + 1, secondsToTicks(event.time + event.duration, event.step));
+      messages.push(
+        { tick: start, bytes: [0x90 | channel, noteNumber, toVelocity(event.velocity)] },
+        { tick: end, bytes: [0x80 | channel, noteNumber, 0] }
+      );
+    });
+
+    return encodeTrack(messages);
+  });
+
+  const header = [
+    ...Array.from("MThd", (char) => char.charCodeAt(0)),
+    ...writeUint(6, 4),
+    ...writeUint(1, 2), // Format 1: simultaneous tracks
+    ...writeUint(trackChunks.length + 1, 2),
+    ...writeUint(TICKS_PER_QUARTER, 2),
+  ];
+
+  return Uint8Array.from([...header, ...tempoTrack, ...trackChunks.flat()]);
+}
@@ -0,0 +1,88 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { DEFAULT_EFFECTS } from "./masterBus";
+import { exportSongAsMidi } from "./midiExport";
+import { importSongFromMidi, midiToNoteName } from "./midiImport";
+import type { SongData } from "./songSchema";
+
+const SONG: SongData = {
+  metadata: {
+    title: "Round Trip",
+    artist: "BaseDrum",
+    version: "1.0.0",
+    created: "2026-01-01T00:00:00.000Z",
+    bpm: 124,
+    bars: 2,
+    steps: 32,
+    format: "basedrum-v1",
+    tempoMap: [{ bar: 2, bpm: 140 }],
+  },
+  effects: DEFAULT_EFFECTS,
+  tracks: {
+    kick: { pattern: [0, 8, 16, 24], velocity: [1, 1, 1, 1], muted: false, volume: 0 },
+    snare: { pattern: [4, 12, 20, 28], velocity: [0.8, 0.8, 0.8, 0.8], muted: false, volume: 0 },
+    bass: { pattern: [2, 10, 18], notes: ["C2", "D#2", "G1"], velocity: [1, 0.5, 1], muted: false, volume: 0 },
+    lead: { pattern: [0, 16], notes: ["C5", "A#4"], velocity: [1, 1], muted: false, volume: 0 },
+  },
+};
+
+// A type-1 file at 96 ticks per quarter whose MTrk chunks hold the given raw events
+function midiFile(...tracks: number[][]): Uint8Array {
+  const chunk = (type: string, data: number[]) => [
+    ...Array.from(type, (char) => char.charCodeAt(0)),
+    ...[24, 16, 8, 0].map((shift) => (data.length >> shift) & 0xff),
+    ...data,
+  ];
+  return new Uint8Array([
+    ...chunk("MThd", [0, 1, 0, tracks.length, 0, 96]),
+    ...tracks.flatMap((events) => chunk("MTrk", [...events, 0x00, 0xff, 0x2f, 0x00])),
+  ]);
+}
+
+describe("importSongFromMidi", () => {
+  it("names MIDI notes like Tone.js", () => {
+    assert.equal(midiToNoteName(60), "C4");
+    assert.equal(midiToNoteName(37), "C#2");
+    assert.equal(midiToNoteName(0), "C-1");
+  });
+
+  it("reads back what exportSongAsMidi writes", () => {
+    const { song, warnings } = importSongFromMidi(exportSongAsMidi(SONG));
+
+    assert.deepEqual(warnings, []);
+    assert.equal(song.metadata.title, "Round Trip");
+    assert.equal(song.metadata.bpm, 124);
+    assert.equal(song.metadata.bars, 2);
+    assert.deepEqual(song.metadata.tempoMap, [{ bar: 2, bpm: 140 }]);
+    assert.deepEqual(song.tracks.kick.pattern, [0, 8, 16, 24]);
+    assert.deepEqual(song.tracks.snare.pattern, [4, 12, 20, 28]);
+    assert.deepEqual(song.tracks.snare.velocity, [0.8, 0.8, 0.8, 0.8]);
+    assert.deepEqual(song.tracks.bass.pattern, [2, 10, 18]);
+    assert.deepEqual(song.tracks.bass.notes, ["C2", "D#2", "G1"]);
+    assert.deepEqual(song.tracks.bass.velocity, [1, 0.5, 1]);
+    assert.deepEqual(song.tracks.lead.notes, ["C5", "A#4"]);
+  });
+
+  it("groups melodic notes by MIDI track and channel, merging chords into their loudest note", () => {
+    const { song, warnings } = importSongFromMidi(
+      midiFile(
+        // A nameless track playing low notes on channel 1 and a chord plus a high note on channel 2
+        [
+          0x00, 0x90, 36, 100, 0x00, 0x91, 72, 60, 0x00, 0x91, 76, 90,
+          0x18, 0x80, 36, 0, 0x00, 0x81, 72, 0, 0x00, 0x81, 76, 0,
+          0x18, 0x90, 38, 100, 0x00, 0x91, 79, 100, 0x18, 0x80, 38, 0, 0x00, 0x81, 79, 0,
+        ],
+        // A second track named Acid, on channel 1 again
+        [0x00, 0xff, 0x03, 4, ...Array.from("Acid", (char) => char.charCodeAt(0)), 0x00, 0x90, 48, 127, 0x18, 0x80, 48, 0]
+      )
+    );
+
+    assert.deepEqual(Object.keys(song.tracks), ["bass", "lead", "acid"]);
+    assert.deepEqual(song.tracks.bass.pattern, [0, 2]);
+    assert.deepEqual(song.tracks.bass.notes, ["C2", "D2"]);
+    assert.deepEqual(song.tracks.lead.pattern, [0, 2]);
+    assert.deepEqual(song.tracks.lead.notes, ["E5", "G5"]);
+    assert.deepEqual(song.tracks.acid.notes, ["C3"]);
+    assert.ok(warnings.some((warning) => warning.startsWith("Merged 1 note(s)")));
+  });
+});
@@ -0,0 +1,430 @@
+import { STEPS_PER_BAR } from "./arrangement";
+import { INSTRUMENT_PROFILES, resolveInstrumentKind } from "./instrumentKinds";
+import { DEFAULT_EFFECTS } from "./masterBus";
+import {
+  VALIDATION_CONSTRAINTS,
+  validateSongData,
+  type SongData,
+  type TempoPoint,
+  type TrackData,
+} from "./songSchema";
+
+export interface MidiImportOptions {
+  // Falls back to the file's first track name, then "Imported MIDI"
+  title?: string;
+  artist?: string;
+}
+
+export interface MidiImportResult {
+  song: SongData;
+  // Human-readable notes on anything that could not be carried over
+  warnings: string[];
+}
+
+// Configuration constants
+const DRUM_CHANNEL = 9; // Channel 10 in 1-based numbering
+const DEFAULT_BPM = 120;
+const STEPS_PER_QUARTER = 4; // 16th-note grid
+// Melodic tracks averaging below this MIDI note become bass, the rest lead
+const BASS_REGISTER_CEILING = 48; // C3
+const NOTE_NAMES = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
+
+// General MIDI drum notes folded into the three drum tracks BaseDrum plays
+const GM_DRUM_TRACKS: Record<number, "kick" | "snare" | "hihat"> = {
+  35: "kick", // Acoustic Bass Drum
+  36: "kick", // Bass Drum 1
+  37: "snare", // Side Stick
+  38: "snare", // Acoustic Snare
+  39: "snare", // Hand Clap
+  40: "snare", // Electric Snare
+  42: "hihat", // Closed Hi-Hat
+  44: "hihat", // Pedal Hi-Hat
+  46: "hihat", // Open Hi-Hat
+};
+
+interface MidiNote {
+  tick: number;
+  channel: number;
+  // Index of the MTrk chunk the note came from
+  track: number;
+  note: number;
+  velocity: number;
+}
+
+interface ParsedMidi {
+  ticksPerQuarter: number;
+  notes: MidiNote[];
+  // Tempo changes in BPM, in file order
+  tempos: { tick: number; bpm: number }[];
+  trackNames: Map<number, string>;
+  timeSignatures: string[];
+}
+
+// A hit on the 16th grid before it becomes part of a TrackData
+interface GridHit {
+  step: number;
+  note?: string;
+  velocity: number;
+}
+
+/**
+ * Converts a MIDI note number to scientific pitch notation, matching
+ * Tone.js where 60 is "C4"
+ */
+export function midiToNoteName(midi: number): string {
+  return `${NOTE_NAMES[midi % 12]}${Math.floor(midi / 12) - 1}`;
+}
+
+class MidiReader {
+  private offset = 0;
+
+  constructor(private readonly bytes: Uint8Array, private readonly end = bytes.length) {}
+
+  get done(): boolean {
+    return this.offset >= this.end;
+  }
+
+  get position(): number {
+    return this.offset;
+  }
+
+  byte(): number {
+    if (this.offset >= this.end) {
+      throw new Error("Invalid MIDI file: unexpected end of data");
+    }
+    return this.bytes[this.offset++];
+  }
+
+  peek(): number {
+    return this.bytes[this.offset];
+  }
+
+  uint(byteCount: number): number {
+    let value = 0;
+    for (let i = 0; i < byteCount; i++) {
+      value = value * 256 + this.byte();
+    }
+    return value;
+  }
+
+  variableLength(): number {
+    let value = 0;
+    let byte: number;
+    do {
+      byte = this.byte();
+      value = value * 128 + (byte & 0x7f);
+    } while (byte & 0x80);
+    return value;
+  }
+
+  text(length: number): string {
+    return String.fromCharCode(...this.take(length));
+  }
+
+  take(length: number): Uint8Array {
+    if (this.offset + length > this.end) {
+      throw new Error("Invalid MIDI file: unexpected end of data");
+    }
+    const slice = this.bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+
+  skip(length: number): void {
+    this.take(length);
+  }
+}
+
+function parseTrack(reader: MidiReader, trackIndex: number, parsed: ParsedMidi): void {
+  let tick = 0;
+  let runningStatus = 0;
+
+  while (!reader.done) {
+    tick += reader.variableLength();
+    let status = reader.peek();
+    if (status & 0x80) {
+      reader.byte();
+    } else {
+      status = runningStatus;
+    }
+
+    if (status === 0xff) {
+      const type = reader.byte();
+      const data = reader.take(reader.variableLength());
+      if (type === 0x51 && data.length === 3) {
+        const microsecondsPerQuarter = (data[0] << 16) | (data[1] << 8) | data[2];
+        parsed.tempos.push({ tick, bpm: 60_000_000 / microsecondsPerQuarter });
+      } else if (type === 0x03 && !parsed.trackNames.has(trackIndex)) {
+        parsed.trackNames.set(trackIndex, new TextDecoder().decode(data).trim());
+      } else if (type === 0x58 && data.length >= 2) {
+        parsed.timeSignatures.push(`${data[0]}/${2 ** data[1]}`);
+      } else if (type === 0x2f) {
+        return;
+      }
+      continue;
+    }
+    if (status === 0xf0 || status === 0xf7) {
+      reader.skip(reader.variableLength());
+      continue;
+    }
+    if (!(status & 0x80)) {
+      throw new Error("Invalid MIDI file: data byte without a status");
+    }
+
+    runningStatus = status;
+    const type = status & 0xf0;
+    const channel = status & 0x0f;
+    const first = reader.byte();
+    const second = type === 0xc0 || type === 0xd0 ? 0 : reader.byte();
+    // Note-on with velocity 0 is a note-off; only onsets matter on a step grid
+    if (type === 0x90 && second > 0) {
+      parsed.notes.push({ tick, channel, track: trackIndex, note: first, velocity: second / 127 });
+    }
+  }
+}
+
+function parseMidi(bytes: Uint8Array): ParsedMidi {
+  const reader = new MidiReader(bytes);
+  if (bytes.length < 14 || reader.text(4) !== "MThd") {
+    throw new Error("Not a MIDI file: missing MThd header");
+  }
+  const headerLength = reader.uint(4);
+  const format = reader.uint(2);
+  const trackCount = reader.uint(2);
+  const division = reader.uint(2);
+  reader.skip(headerLength - 6);
+
+  if (format > 1) {
+    throw new Error(`Unsupported MIDI format ${format}: only types 0 and 1 can be imported`);
+  }
+  if (division & 0x8000) {
+    throw new Error("Unsupported MIDI timing: SMPTE time codes cannot be mapped to steps");
+  }
+
+  const parsed: ParsedMidi = {
+    ticksPerQuarter: division,
+    notes: [],
+    tempos: [],
+    trackNames: new Map(),
+    timeSignatures: [],
+  };
+
+  for (let trackIndex = 0; trackIndex < trackCount && !reader.done; trackIndex++) {
+    const chunkType = reader.text(4);
+    const chunkLength = reader.uint(4);
+    const start = reader.position;
+    if (chunkType === "MTrk") {
+      parseTrack(new MidiReader(bytes.subarray(start, start + chunkLength)), trackIndex, parsed);
+    } else {
+      // Unknown chunks don't count as tracks
+      trackIndex--;
+    }
+    reader.skip(chunkLength);
+  }
+
+  return parsed;
+}
+
+function clampBpm(bpm: number): number {
+  return Math.min(VALIDATION_CONSTRAINTS.BPM_MAX, Math.max(VALIDATION_CONSTRAINTS.BPM_MIN, Math.round(bpm)));
+}
+
+/**
+ * Reads the starting tempo and turns later tempo changes into tempo map
+ * points. Only changes on a bar line can be represented; the rest are reported.
+ */
+function resolveTempo(parsed: ParsedMidi, warnings: string[]): { bpm: number; tempoMap?: TempoPoint[] } {
+  const ticksPerBar = parsed.ticksPerQuarter * 4;
+  const sourceBpm = parsed.tempos.filter(({ tick }) => tick === 0).pop()?.bpm ?? DEFAULT_BPM;
+  const bpm = clampBpm(sourceBpm);
+  let clamped = bpm !== Math.round(sourceBpm) ? 1 : 0;
+  let offBar = 0;
+
+  const tempoMap: TempoPoint[] = [];
+  let currentBpm = bpm;
+  [...parsed.tempos]
+    .sort((a, b) => a.tick - b.tick)
+    .filter(({ tick }) => tick > 0)
+    .forEach(({ tick, bpm: changeBpm }) => {
+      if (tick % ticksPerBar !== 0) {
+        offBar++;
+        return;
+      }
+      const pointBpm = clampBpm(changeBpm);
+      if (pointBpm !== Math.round(changeBpm)) clamped++;
+      if (pointBpm === currentBpm) return;
+      tempoMap.push({ bar: tick / ticksPerBar + 1, bpm: pointBpm });
+      currentBpm = pointBpm;
+    });
+
+  if (offBar > 0) {
+    warnings.push(`Ignored ${offBar} tempo change(s) that don't start on a bar line`);
+  }
+  if (clamped > 0) {
+    warnings.push(
+      `Clamped ${clamped} tempo(s) into the ${VALIDATION_CONSTRAINTS.BPM_MIN}-${VALIDATION_CONSTRAINTS.BPM_MAX} BPM range`
+    );
+  }
+  return { bpm, tempoMap: tempoMap.length > 0 ? tempoMap : undefined };
+}
+
+// Keeps one hit per step, preferring the loudest
+function mergeHits(hits: GridHit[]): { hits: GridHit[]; merged: number } {
+  const byStep = new Map<number, GridHit>();
+  hits.forEach((hit) => {
+    const existing = byStep.get(hit.step);
+    if (!existing || hit.velocity > existing.velocity) {
+      byStep.set(hit.step, hit);
+    }
+  });
+  const merged = [...byStep.values()].sort((a, b) => a.step - b.step);
+  return { hits: merged, merged: hits.length - merged.length };
+}
+
+function toTrackData(hits: GridHit[], melodic: boolean): TrackData {
+  return {
+    pattern: hits.map(({ step }) => step),
+    ...(melodic ? { notes: hits.map(({ note }) => note ?? "") } : {}),
+    velocity: hits.map(({ velocity }) => Math.round(velocity * 100) / 100),
+    muted: false,
+    volume: 0,
+  };
+}
+
+// Picks a track name the engine will play as a melodic instrument
+function melodicTrackName(hits: MidiNote[], sourceName: string | undefined, taken: Set<string>): string {
+  const candidate = sourceName?.toLowerCase().replace(/[^a-z0-9]+/g, "");
+  let base = candidate && INSTRUMENT_PROFILES[resolveInstrumentKind(candidate)].melodic ? candidate : "";
+  if (!base) {
+    const averageNote = hits.reduce((sum, { note }) => sum + note, 0) / hits.length;
+    base = averageNote < BASS_REGISTER_CEILING ? "bass" : "lead";
+  }
+
+  let name = base;
+  for (let suffix = 2; taken.has(name); suffix++) {
+    name = `${base}${suffix}`;
+  }
+  taken.add(name);
+  return name;
+}
+
+/**
+ * Converts a Standard MIDI File (type 0 or 1) into a validated basedrum-v1
+ * song. Channel 10 drums become kick, snare and hihat tracks; every other
+ * channel of every MIDI track becomes a melodic track with notes and
+ * velocity. Note onsets are quantized to the 16th-step grid and anything
+ * beyond VALIDATION_CONSTRAINTS.STEP_MAX is dropped. Everything lost on the
+ * way is listed in `warnings`.
+ * @throws Error for unreadable or unsupported files, ZodError if the result fails validation
+ */
+export function importSongFromMidi(
+  data: ArrayBuffer | Uint8Array,
+  { title, artist = "BaseDrum" }: MidiImportOptions = {}
+): MidiImportResult {
+  const parsed = parseMidi(data instanceof Uint8Array ? data : new Uint8Array(data));
+  const warnings: string[] = [];
+  const { bpm, tempoMap } = resolveTempo(parsed, warnings);
+
+  const unsupportedSignatures = parsed.timeSignatures.filter((signature) => signature !== "4/4");
+  if (unsupportedSignatures.length > 0) {
+    warnings.push(`Time signature ${unsupportedSignatures[0]} was read as 4/4`);
+  }
+
+  const ticksPerStep = parsed.ticksPerQuarter / STEPS_PER_QUARTER;
+  const toStep = (tick: number) => Math.round(tick / ticksPerStep);
+  let outOfRange = 0;
+  const inRange = parsed.notes.filter((note) => {
+    const keep = toStep(note.tick) <= VALIDATION_CONSTRAINTS.STEP_MAX;
+    if (!keep) outOfRange++;
+    return keep;
+  });
+  if (outOfRange > 0) {
+    warnings.push(`Dropped ${outOfRange} note(s) past step ${VALIDATION_CONSTRAINTS.STEP_MAX}`);
+  }
+
+  const tracks: Record<string, TrackData> = {};
+  let mergedCount = 0;
+  const addTrack = (name: string, hits: GridHit[], melodic: boolean) => {
+    const result = mergeHits(hits);
+    mergedCount += result.merged;
+    tracks[name] = toTrackData(result.hits, melodic);
+  };
+
+  // Drums: fold channel 10 from every MIDI track into kick, snare and hihat
+  const drumHits: Record<string, GridHit[]> = {};
+  const unmappedDrums = new Set<number>();
+  let unmappedDrumCount = 0;
+  inRange
+    .filter(({ channel }) => channel === DRUM_CHANNEL)
+    .forEach(({ tick, note, velocity }) => {
+      const trackName = GM_DRUM_TRACKS[note];
+      if (!trackName) {
+        unmappedDrums.add(note);
+        unmappedDrumCount++;
+        return;
+      }
+      (drumHits[trackName] ??= []).push({ step: toStep(tick), velocity });
+    });
+  if (unmappedDrumCount > 0) {
+    warnings.push(
+      `Dropped ${unmappedDrumCount} drum hit(s) on GM notes ${[...unmappedDrums].sort((a, b) => a - b).join(", ")} with no kick, snare or hihat equivalent`
+    );
+  }
+  Object.entries(drumHits).forEach(([name, hits]) => addTrack(name, hits, false));
+
+  // Melodic: one track per MIDI track and channel pair
+  const melodicGroups = new Map<string, MidiNote[]>();
+  inRange
+    .filter(({ channel }) => channel !== DRUM_CHANNEL)
+    .forEach((note) => {
+      const key = `${note.track}:${note.channel}`;
+      const group = melodicGroups.get(key);
+      if (group) {
+        group.push(note);
+      } else {
+        melodicGroups.set(key, [note]);
+      }
+    });
+  const taken = new Set(Object.keys(tracks));
+  melodicGroups.forEach((notes) => {
+    const name = melodicTrackName(notes, parsed.trackNames.get(notes[0].track), taken);
+    const hits = notes.map(({ tick, note, velocity }) => ({
+      step: toStep(tick),
+      note: midiToNoteName(note),
+      velocity,
+    }));
+    addTrack(name, hits, true);
+  });
+
+  if (mergedCount > 0) {
+    warnings.push(`Merged ${mergedCount} note(s) sharing a step with a louder one (chords play their top velocity note)`);
+  }
+  if (Object.keys(tracks).length === 0) {
+    warnings.push("The file contains no notes");
+  }
+
+  const lastStep = Math.max(0, ...Object.values(tracks).flatMap(({ pattern }) => pattern));
+  const steps = Math.min(
+    VALIDATION_CONSTRAINTS.STEPS_MAX,
+    Math.max(VALIDATION_CONSTRAINTS.STEPS_MIN, Math.ceil((lastStep + 1) / STEPS_PER_BAR) * STEPS_PER_BAR)
+  );
+  const fileTitle = [...parsed.trackNames.values()].find((name) => name.length > 0);
+
+  const song = validateSongData({
+    metadata: {
+      title: title || fileTitle || "Imported MIDI",
+      artist,
+      version: "1.0.0",
+      created: new Date().toISOString(),
+      bpm,
+      bars: steps / STEPS_PER_BAR,
+      steps,
+      format: "basedrum-v1",
+      tempoMap,
+    },
+    effects: DEFAULT_EFFECTS,
+    tracks,
+  });
+
+  return { song, warnings };
+}
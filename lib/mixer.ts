@@ -0,0 +1,177 @@
+import * as Tone from "tone";
+import { METER_SIZE, SILENT_LEVEL, measureLevel, type TrackLevel } from "./audioAnalysis";
+import type { AutomatableParam } from "./automation";
+import type { MasterBus, SidechainSettings } from "./masterBus";
+import type { TrackData } from "./songSchema";
+
+// The mixer-facing fields of a track, as stored in SongData.tracks
+export type TrackMix = Pick<TrackData, "volume" | "pan" | "solo" | "muted" | "sends">;
+export type SendName = keyof NonNullable<TrackData["sends"]>;
+
+// Track whose hits trigger sidechain ducking when the song doesn't name one
+export const DEFAULT_SIDECHAIN_SOURCE = "kick";
+// Shortest duck attack, so the gain never steps hard enough to click
+const MIN_DUCK_ATTACK = 0.001;
+// The strip filter sits wide open until a cutoff lane moves it
+const OPEN_CUTOFF = 20000;
+const DEFAULT_RESONANCE = 1;
+
+// One track's strip: a sidechain ducking stage, an automatable lowpass, fader,
+// pan, mute and solo, plus post-fader effect sends and a post-fader meter
+interface ChannelStrip {
+  duck: Tone.Gain;
+  filter: Tone.Filter;
+  channel: Tone.Channel;
+  sends: Record<SendName, Tone.Gain>;
+  meter: Tone.Analyser;
+}
+
+/**
+ * Channel strips for every track, summed into the master bus. Track voices
+ * play into `addTrack`'s returned input; levels come straight from
+ * TrackData so the song stays the single source of truth.
+ */
+export class Mixer {
+  private strips: Map<string, ChannelStrip> = new Map();
+
+  constructor(private readonly bus: MasterBus) {}
+
+  // Create the strip for a track (kept as is if it exists), returning the node its voice should play into
+  addTrack(name: string, mix: TrackMix): Tone.InputNode {
+    let strip = this.strips.get(name);
+    if (!strip) {
+      const channel = new Tone.Channel().connect(this.bus.input);
+      const filter = new Tone.Filter(OPEN_CUTOFF, "lowpass").connect(channel);
+      filter.Q.value = DEFAULT_RESONANCE;
+      const duck = new Tone.Gain(1).connect(filter);
+      const sends = {
+        reverb: new Tone.Gain(0).connect(this.bus.reverbInput),
+        delay: new Tone.Gain(0).connect(this.bus.delayInput),
+      };
+      const meter = new Tone.Analyser("waveform", METER_SIZE);
+      channel.connect(sends.reverb);
+      channel.connect(sends.delay);
+      channel.connect(meter);
+      strip = { duck, filter, channel, sends, meter };
+      this.strips.set(name, strip);
+      this.setTrack(name, mix);
+    }
+    return strip.duck;
+  }
+
+  // Set every strip level from the track, cancelling any automation on them
+  setTrack(name: string, { volume, pan = 0, solo = false, muted, sends }: TrackMix): void {
+    const strip = this.strips.get(name);
+    if (!strip) return;
+
+    strip.channel.volume.value = volume;
+    strip.channel.pan.value = pan;
+    strip.channel.mute = muted;
+    strip.channel.solo = solo;
+    strip.sends.reverb.gain.value = sends?.reverb ?? 0;
+    strip.sends.delay.gain.value = sends?.delay ?? 0;
+  }
+
+  /**
+   * Set only the given levels. Assigning a param's value cancels its scheduled
+   * ramps, so levels left out keep playing their automation.
+   */
+  updateTrack(name: string, { volume, pan, solo, muted, sends }: Partial<TrackMix>): void {
+    const strip = this.strips.get(name);
+    if (!strip) return;
+
+    if (volume !== undefined) strip.channel.volume.value = volume;
+    if (pan !== undefined) strip.channel.pan.value = pan;
+    if (muted !== undefined) strip.channel.mute = muted;
+    if (solo !== undefined) strip.channel.solo = solo;
+    if (sends?.reverb !== undefined) strip.sends.reverb.gain.value = sends.reverb;
+    if (sends?.delay !== undefined) strip.sends.delay.gain.value = sends.delay;
+  }
+
+  // Whether the track reaches the bus: not muted, and not silenced by another track's solo
+  isAudible(name: string): boolean {
+    const channel = this.strips.get(name)?.channel;
+    return channel !== undefined && !channel.muted;
+  }
+
+  /**
+   * Ducks the target tracks for one sidechain trigger at `time`: their level
+   * dips by `depth` (scaled by the trigger's velocity) over `attack` seconds,
+   * then recovers over `release` seconds.
+   */
+  duck(time: number, { targets, depth, attack, release }: SidechainSettings, velocity = 1): void {
+    const floor = 1 - depth * velocity;
+    const peakTime = time + Math.max(MIN_DUCK_ATTACK, attack);
+    targets.forEach((name) => {
+      const gain = this.strips.get(name)?.duck.gain;
+      if (!gain) return;
+
+      // Start from wherever a previous duck left off, so overlapping hits don't jump
+      gain.cancelScheduledValues(time);
+      gain.setValueAtTime(gain.getValueAtTime(time), time);
+      gain.linearRampToValueAtTime(floor, peakTime);
+      gain.linearRampToValueAtTime(1, peakTime + release);
+    });
+  }
+
+  // The strip parameter a track automation lane moves (see AUTOMATION_PARAMETERS)
+  getParam(name: string, parameter: string): AutomatableParam | undefined {
+    const strip = this.strips.get(name);
+    if (!strip) return undefined;
+    switch (parameter) {
+      case "volume":
+        return strip.channel.volume;
+      case "pan":
+        return strip.channel.pan;
+      case "send.reverb":
+        return strip.sends.reverb.gain;
+      case "send.delay":
+        return strip.sends.delay.gain;
+      case "cutoff":
+        return strip.filter.frequency;
+      case "resonance":
+        return strip.filter.Q;
+      default:
+        return undefined;
+    }
+  }
+
+  // Put the strip filter back where no automation has moved it
+  resetFilter(name: string): void {
+    const filter = this.strips.get(name)?.filter;
+    if (!filter) return;
+    filter.frequency.cancelScheduledValues(0);
+    filter.frequency.value = OPEN_CUTOFF;
+    filter.Q.cancelScheduledValues(0);
+    filter.Q.value = DEFAULT_RESONANCE;
+  }
+
+  // RMS and peak of what the track is sending to the bus right now (silent when muted)
+  getLevel(name: string): TrackLevel {
+    const meter = this.strips.get(name)?.meter;
+    return meter ? measureLevel(meter.getValue() as Float32Array) : SILENT_LEVEL;
+  }
+
+  getLevels(): Record<string, TrackLevel> {
+    return Object.fromEntries(Array.from(this.strips.keys(), (name) => [name, this.getLevel(name)]));
+  }
+
+  removeTrack(name: string): void {
+    const strip = this.strips.get(name);
+    if (!strip) return;
+
+    // Release solo first so the remaining tracks are heard again
+    strip.channel.solo = false;
+    strip.duck.dispose();
+    strip.filter.dispose();
+    strip.channel.dispose();
+    strip.sends.reverb.dispose();
+    strip.sends.delay.dispose();
+    strip.meter.dispose();
+    this.strips.delete(name);
+  }
+
+  dispose(): void {
+    Array.from(this.strips.keys()).forEach((name) => this.removeTrack(name));
+  }
+}
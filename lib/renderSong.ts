@@ -0,0 +1,142 @@
+import * as Tone from "tone";
+import { MASTER_TARGET, scheduleAutomation } from "./automation";
+import { createInstrument, type InstrumentFactory } from "./instruments";
+import { MasterBus } from "./masterBus";
+import { DEFAULT_SIDECHAIN_SOURCE, Mixer } from "./mixer";
+import type { SongData } from "./songSchema";
+import { compileSongToEvents, getSongDuration, getSongLengthInSteps } from "./songTimeline";
+import { TempoMap } from "./tempoMap";
+
+export interface RenderOptions {
+  sampleRate?: number;
+  // Seconds rendered past the last bar so releases and reverb can ring out
+  tail?: number;
+  // Defaults to the same instruments SimpleAudioEngine plays
+  instrumentFactory?: InstrumentFactory;
+}
+
+// Configuration constants
+const DEFAULT_SAMPLE_RATE = 44100;
+const DEFAULT_TAIL = 2;
+const CHANNELS = 2;
+const BITS_PER_SAMPLE = 16;
+
+/**
+ * Renders the full song (metadata.bars) in an offline audio context, using
+ * the same instruments, mixer and master bus as live playback. Patterns loop
+ * every metadata.steps steps; arrangement sections, the track mix
+ * (volume, pan, mute, solo and sends), sidechain ducking and automation
+ * lanes are honoured.
+ */
+export async function renderSongToBuffer(
+  song: SongData,
+  {
+    sampleRate = DEFAULT_SAMPLE_RATE,
+    tail = DEFAULT_TAIL,
+    instrumentFactory = createInstrument,
+  }: RenderOptions = {}
+): Promise<AudioBuffer> {
+  const songDuration = getSongDuration(song);
+  const events = compileSongToEvents(song, { skipMuted: true });
+
+  const tempo = TempoMap.fromMetadata(song.metadata);
+
+  const rendered = await Tone.Offline(async () => {
+    // The offline context has its own transport, at 120 BPM until told otherwise
+    Tone.getTransport().bpm.value = tempo.bpmAtStep(0);
+    const masterBus = new MasterBus(song.effects, Tone.getDestination(), tempo.bpmAtStep(0));
+    tempo.changes.forEach(({ step, bpm, ramp }) => masterBus.setTempo(bpm, tempo.timeAtStep(step), ramp));
+    const mixer = new Mixer(masterBus);
+    const voices = new Map(
+      Object.entries(song.tracks)
+        .filter(([, track]) => !track.muted)
+        .map(([name, track]) => [name, instrumentFactory(name, track, mixer.addTrack(name, track))] as const)
+    );
+
+    // The reverb impulse response is generated asynchronously, and sample voices load their files
+    await Promise.all([masterBus.ready, Tone.loaded()]);
+    masterBus.startSweep(0, songDuration);
+    song.automation?.forEach((lane) => {
+      const param =
+        lane.target === MASTER_TARGET
+          ? masterBus.getParam(lane.parameter)
+          : voices.get(lane.target)?.params[lane.parameter] ?? mixer.getParam(lane.target, lane.parameter);
+      if (param) {
+        scheduleAutomation(param, lane, 0, tempo, getSongLengthInSteps(song));
+      }
+    });
+
+    const { sidechain } = song.effects;
+    events.forEach((event) => {
+      const { time, track, note, velocity, duration } = event;
+      // The event carries its own slide and accent flags
+      voices.get(track)?.trigger(time, note, velocity, duration, event);
+      if (sidechain && track === (sidechain.source ?? DEFAULT_SIDECHAIN_SOURCE) && mixer.isAudible(track)) {
+        mixer.duck(time, sidechain, velocity);
+      }
+    });
+  }, songDuration + tail, CHANNELS, sampleRate);
+
+  const buffer = rendered.get();
+  if (!buffer) {
+    throw new Error("Offline render produced no audio");
+  }
+  return buffer;
+}
+
+/**
+ * Encodes an AudioBuffer as a 16-bit PCM WAV file
+ */
+export function encodeWav(buffer: AudioBuffer): ArrayBuffer {
+  const { numberOfChannels, sampleRate, length } = buffer;
+  const bytesPerSample = BITS_PER_SAMPLE / 8;
+  const blockAlign = numberOfChannels * bytesPerSample;
+  const dataSize = length * blockAlign;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      view.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+
+  // RIFF header
+  writeString(0, "RIFF");
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, "WAVE");
+  // fmt chunk: uncompressed PCM
+  writeString(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, numberOfChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, BITS_PER_SAMPLE, true);
+  // data chunk: interleaved samples
+  writeString(36, "data");
+  view.setUint32(40, dataSize, true);
+
+  const channels = Array.from({ length: numberOfChannels }, (_, i) => buffer.getChannelData(i));
+  let offset = 44;
+  for (let i = 0; i < length; i++) {
+    for (const channel of channels) {
+      const sample = Math.max(-1, Math.min(1, channel[i]));
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+      offset += bytesPerSample;
+    }
+  }
+
+  return view.buffer;
+}
+
+/**
+ * Renders a song to a downloadable WAV blob
+ * @param song - Song to render
+ * @param options - Sample rate, tail length and instrument overrides
+ * @returns WAV file covering all metadata.bars plus the release tail
+ */
+export async function renderSongToWav(song: SongData, options: RenderOptions = {}): Promise<Blob> {
+  const buffer = await renderSongToBuffer(song, options);
+  return new Blob([encodeWav(buffer)], { type: "audio/wav" });
+}
@@ -0,0 +1,113 @@
+import * as Tone from "tone";
+import type { SampleConfig } from "./songSchema";
+
+// Sample paths in songs and presets are relative to public/samples
+const SAMPLE_BASE_URL = "/samples/";
+// Pitch a one-shot was recorded at when the config doesn't say
+const DEFAULT_ROOT_NOTE = "C4";
+// Fade when a note is released or choked, short enough to keep drums tight but click-free
+const RELEASE_FADE = 0.01;
+
+interface RootSample {
+  midi: number;
+  buffer: Tone.ToneAudioBuffer;
+  url: string;
+}
+
+// Sources still sounding per choke group, across every player, with when each ends
+const chokeGroups = new Map<string, Map<Tone.ToneBufferSource, number>>();
+
+export function resolveSampleUrl(path: string): string {
+  return /^(\/|[a-z]+:)/i.test(path) ? path : SAMPLE_BASE_URL + path;
+}
+
+// Cut off everything in `group` still sounding at `time`
+function choke(group: string, time: number): void {
+  chokeGroups.get(group)?.forEach((end, source) => {
+    if (end > time) source.stop(time);
+  });
+}
+
+/**
+ * Plays samples from public/samples with a synth-like trigger API.
+ * A single `url` is a one-shot that rings out in full, pitched relative to
+ * `rootNote` when a note is given. `urls` maps root notes to files for a
+ * pitched multisample: each note plays the nearest root, repitched, and is
+ * released after its duration. `start`/`end` trim the file (in seconds),
+ * `reverse` plays the trimmed region backwards, and players sharing a
+ * `chokeGroup` cut each other off, like a closed hi-hat choking an open one.
+ */
+export class SamplePlayer {
+  readonly output: Tone.Gain;
+  readonly loaded: Promise<void>;
+  private samples: RootSample[];
+  private oneShot: boolean;
+
+  constructor(private readonly config: SampleConfig) {
+    this.output = new Tone.Gain(1);
+    this.oneShot = !config.urls;
+    const urls = config.urls ?? (config.url ? { [config.rootNote ?? DEFAULT_ROOT_NOTE]: config.url } : {});
+
+    this.samples = Object.entries(urls)
+      .map(([note, url]) => ({ midi: Tone.Frequency(note).toMidi(), buffer: new Tone.ToneAudioBuffer(), url }))
+      .sort((a, b) => a.midi - b.midi);
+    this.loaded = Promise.all(
+      this.samples.map(async ({ buffer, url }) => {
+        await buffer.load(resolveSampleUrl(url));
+        buffer.reverse = config.reverse ?? false;
+      })
+    ).then(() => undefined);
+  }
+
+  connect(destination: Tone.InputNode): this {
+    this.output.connect(destination);
+    return this;
+  }
+
+  private nearestSample(midi: number): RootSample | undefined {
+    return this.samples.reduce<RootSample | undefined>(
+      (nearest, sample) => (!nearest || Math.abs(sample.midi - midi) < Math.abs(nearest.midi - midi) ? sample : nearest),
+      undefined
+    );
+  }
+
+  /**
+   * Plays the sample at `time`. One-shots ignore `duration`; multisamples
+   * release after it. Without a note the sample plays at its root pitch.
+   */
+  triggerAttackRelease(note: Tone.Unit.Frequency | undefined, duration: number, time: number, velocity = 1): void {
+    const target = note !== undefined ? Tone.Frequency(note).toMidi() : undefined;
+    const sample = target !== undefined ? this.nearestSample(target) : this.samples[0];
+    if (!sample?.buffer.loaded) return;
+
+    const { start = 0, end = sample.buffer.duration, reverse = false, chokeGroup } = this.config;
+    const regionEnd = Math.min(end, sample.buffer.duration);
+    const regionLength = Math.max(0, regionEnd - start);
+    // The buffer itself is reversed, so the trimmed region sits mirrored in it
+    const offset = reverse ? sample.buffer.duration - regionEnd : start;
+    const playbackRate = target !== undefined ? 2 ** ((target - sample.midi) / 12) : 1;
+    const length = this.oneShot ? regionLength / playbackRate : Math.min(duration, regionLength / playbackRate);
+
+    if (chokeGroup) choke(chokeGroup, time);
+
+    const source = new Tone.ToneBufferSource({ url: sample.buffer, playbackRate, fadeOut: RELEASE_FADE }).connect(
+      this.output
+    );
+    source.start(time, offset, length, velocity);
+
+    if (chokeGroup) {
+      const group = chokeGroups.get(chokeGroup) ?? new Map<Tone.ToneBufferSource, number>();
+      group.set(source, time + length);
+      chokeGroups.set(chokeGroup, group);
+    }
+    source.onended = () => {
+      if (chokeGroup) chokeGroups.get(chokeGroup)?.delete(source);
+      source.dispose();
+    };
+  }
+
+  dispose(): void {
+    this.samples.forEach(({ buffer }) => buffer.dispose());
+    this.output.dispose();
+  }
+}
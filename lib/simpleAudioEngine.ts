@@ -1,251 +1,444 @@
 import * as Tone from "tone";
-
-// Callback types for UI updates
-type StepChangeCallback = (step: number) => void;
-type BeatIntensityCallback = (intensity: number) => void;
+import {
+  STEPS_PER_BAR,
+  barForStep,
+  findSectionForBar,
+  positionForStep,
+  type Arrangement,
+  type LoopRegion,
+  type SectionInfo,
+  type TransportPosition,
+} from "./arrangement";
+import { MASTER_TARGET, scheduleAutomation, type AutomatableParam } from "./automation";
+import { MasterAnalyser, SILENT_LEVEL, type TrackLevel } from "./audioAnalysis";
+import {
+  TypedEmitter,
+  type EngineEventMap,
+  type EngineEventName,
+  type EngineListener,
+  type PendingChange,
+} from "./engineEvents";
+import { createInstrument, type InstrumentFactory, type TrackVoice } from "./instruments";
+import {
+  DEFAULT_DELAY,
+  DEFAULT_EFFECTS,
+  MasterBus,
+  type DelaySettings,
+  type FilterSettings,
+  type ReverbSettings,
+  type SidechainSettings,
+  type SongEffects,
+} from "./masterBus";
+import { DEFAULT_SIDECHAIN_SOURCE, Mixer, type TrackMix } from "./mixer";
+import { soundBank } from "./sound-bank";
+import type {
+  AutomationLane,
+  PatternGeneration,
+  SongData,
+  Synthesis,
+  TempoPoint,
+  TrackData,
+} from "./songSchema";
+import {
+  compileSongToEvents,
+  getPolymeterCycle,
+  getSongLengthInSteps,
+  type SongEvent,
+  type TimelineSource,
+} from "./songTimeline";
+import { TempoMap } from "./tempoMap";
 
 // Configuration constants
-const BPM = 128;
-const KICK_NOTE = "C1";
-const NOTE_DURATION = "8n";
+const DEFAULT_BPM = 128;
 const DEFAULT_STEPS = 16;
 const SUBDIVISION = "16n"; // 16th notes for steps
-
-// Beat intensity decay timing (in milliseconds)
-const BEAT_INTENSITY_DECAY = [
-  { intensity: 1, delay: 0 },
-  { intensity: 0.7, delay: 50 },
-  { intensity: 0.4, delay: 100 },
-  { intensity: 0.1, delay: 150 },
-  { intensity: 0, delay: 200 },
-] as const;
+// Longest polymeter cycle compiled ahead; loops that take longer to realign restart here
+const MAX_TIMELINE_STEPS = 4096;
+
+export interface QuantizeOptions {
+  // Bars to wait while playing: 1 lands on the next bar line, 0 (default) applies right away
+  quantize?: number;
+}
+
+// Channel strip fields of a track, which updateSong applies without touching playback
+const MIX_FIELDS: ReadonlyArray<keyof TrackMix> = ["volume", "pan", "solo", "muted", "sends"];
+
+// What a track plays rather than how it sounds: the part of a quantized track change that waits for the bar line
+const PATTERN_FIELDS = ["pattern", "notes", "velocity", "ghostNotes", "gate", "tie", "slide", "accent", "length"] as const;
+type TrackPattern = Pick<TrackData, (typeof PATTERN_FIELDS)[number]>;
+
+// Deep comparison of song data; key order doesn't matter and undefined fields count as absent
+function differs(a: unknown, b: unknown): boolean {
+  if (a === b) return false;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return true;
+  if (Array.isArray(a) !== Array.isArray(b)) return true;
+  const left = a as Record<string, unknown>;
+  const right = b as Record<string, unknown>;
+  const keys = new Set([...Object.keys(left), ...Object.keys(right)]);
+  return Array.from(keys).some((key) => differs(left[key], right[key]));
+}
+
+function mixOf(track: TrackData): TrackMix {
+  return { volume: track.volume, pan: track.pan, solo: track.solo, muted: track.muted, sends: track.sends };
+}
+
+function patternOf(track: TrackData): TrackPattern {
+  return Object.fromEntries(PATTERN_FIELDS.map((field) => [field, track[field]])) as TrackPattern;
+}
+
+// The mix levels that differ between two states of a track, down to single sends
+function mixChanges(previous: TrackMix, next: TrackMix): Partial<TrackMix> {
+  const changes: Partial<TrackMix> = {};
+  if (previous.volume !== next.volume) changes.volume = next.volume;
+  if ((previous.pan ?? 0) !== (next.pan ?? 0)) changes.pan = next.pan ?? 0;
+  if (Boolean(previous.solo) !== Boolean(next.solo)) changes.solo = Boolean(next.solo);
+  if (previous.muted !== next.muted) changes.muted = next.muted;
+  const sends = (["reverb", "delay"] as const).filter((send) => (previous.sends?.[send] ?? 0) !== (next.sends?.[send] ?? 0));
+  if (sends.length > 0) {
+    changes.sends = Object.fromEntries(sends.map((send) => [send, next.sends?.[send] ?? 0]));
+  }
+  return changes;
+}
+
+// True when anything the timeline or instrument depends on moved (everything but the mix)
+function playbackDiffers(a: TrackData, b: TrackData): boolean {
+  const fields = new Set([...Object.keys(a), ...Object.keys(b)] as (keyof TrackData)[]);
+  return Array.from(fields).some((field) => !(MIX_FIELDS as readonly string[]).includes(field) && differs(a[field], b[field]));
+}
+
+interface QueuedChange extends PendingChange {
+  // Bar count (see barsStarted) at whose downbeat the change applies
+  atBar: number;
+  apply: () => void;
+}
 
 export class SimpleAudioEngine {
-  private kick: Tone.MembraneSynth | null = null;
-  private snare: Tone.NoiseSynth | null = null;
-  private bass: Tone.Synth | null = null;
-  private acid: Tone.MonoSynth | null = null;
-  private lead: Tone.PolySynth | null = null;
-  private kickVolume: Tone.Volume | null = null;
-  private snareVolume: Tone.Volume | null = null;
-  private bassVolume: Tone.Volume | null = null;
-  private acidVolume: Tone.Volume | null = null;
-  private leadVolume: Tone.Volume | null = null;
-  private sequence: Tone.Sequence | null = null;
+  // Track state keyed by track name, mirroring SongData.tracks
+  private tracks: Map<string, TrackData> = new Map();
+  // One voice per track, built lazily once the engine is initialized
+  private voices: Map<string, TrackVoice> = new Map();
+  private instrumentFactory: InstrumentFactory;
+  // Every voice feeds the master bus, which plays SongData.effects
+  private masterBus: MasterBus | null = null;
+  // Channel strips (volume, pan, mute, solo, sends) between each voice and the bus
+  private mixer: Mixer | null = null;
+  // Spectrum, waveform and level of the final mix, for visualizers
+  private analyser: MasterAnalyser | null = null;
+  private effects: SongEffects = DEFAULT_EFFECTS;
+  private sequence: Tone.Loop | null = null;
+  // Song step the next 16th plays, advanced by the sequence loop
+  private nextStep = 0;
+  // Song step the listener last heard, for getPosition
+  private heardStep = 0;
+  // Steps the playhead jumps back from (endStep) to (startStep), if a loop is set
+  private loopRegion: { startStep: number; endStep: number } | null = null;
+  // Set when playback jumps (seek, loop, resume) so the next step re-lines up tempo, sweep and automation
+  private needsResync = false;
+  // Bar downbeats played since the transport started, and changes waiting for one
+  private barsStarted = 0;
+  private pendingChanges: QueuedChange[] = [];
+  private nextChangeId = 1;
   private isInitialized = false;
   private isPlaying = false;
-  private onStepCallback?: StepChangeCallback;
-  private onBeatIntensityCallback?: BeatIntensityCallback;
-  private kickPattern: number[] = [0, 4, 8, 12]; // Default pattern
-  private snarePattern: number[] = [4, 12]; // Default snare pattern
-  private bassPattern: number[] = []; // Start empty - will be set when bass track is introduced
-  private bassNotes: string[] = ["D1", "D1", "F1", "G1"]; // Note pattern: [D1, D1, F1, G1] repeated 2 times within 16 steps
-  // Acid pattern - starts empty, will be set when acid track is introduced
-  private acidPattern: { step: number; note: string | null }[] = [];
-  // Lead pattern - will be derived from avatar image (64 notes from 8x8 grid)
-  private leadPattern: { step: number; notes: string[] }[] = [];
+  private isPaused = false;
+  // Transport events for the UI, fired in time with the audio via Tone.Draw
+  private events = new TypedEmitter<EngineEventMap>();
+  // Arrangement sections decide which tracks play in each bar
+  private arrangement?: Arrangement;
+  private currentSection: SectionInfo | null = null;
   private currentSteps: number = DEFAULT_STEPS; // Current number of steps in sequence
-
-  async initialize(
-    onStepChange?: StepChangeCallback,
-    onBeatIntensity?: BeatIntensityCallback
-  ): Promise<void> {
+  // Song length (metadata.bars); patterns loop every currentSteps within it and playback wraps after it
+  private bars: number = DEFAULT_STEPS / STEPS_PER_BAR;
+  // Song tempo (metadata.bpm) and optional tempo map, resolved into step times
+  private bpm: number = DEFAULT_BPM;
+  private tempoPoints?: TempoPoint[];
+  private tempo: TempoMap = new TempoMap(DEFAULT_BPM);
+  // Swing, humanization and groove template (metadata.patternGeneration)
+  private patternGeneration?: PatternGeneration;
+  // Parameter lanes (SongData.automation), scheduled on every pass through the song
+  private automation: AutomationLane[] = [];
+  // Compiled timeline bucketed by step, rebuilt whenever tracks or arrangement change
+  private stepEvents: SongEvent[][] = [];
+  // Passes through the song until every track loop realigns, and the pass now playing
+  private timelineSteps: number = DEFAULT_STEPS;
+  private passIndex = -1;
+
+  constructor(instrumentFactory: InstrumentFactory = createInstrument) {
+    this.instrumentFactory = instrumentFactory;
+  }
+
+  async initialize(): Promise<void> {
     if (this.isInitialized) return;
-    
-    this.onStepCallback = onStepChange;
-    this.onBeatIntensityCallback = onBeatIntensity;
-    
+
     await Tone.start();
     
-    this.createKickDrum();
-    this.createSnare();
-    this.createBass();
-    this.createAcid();
-    this.createLead();
+    this.masterBus = new MasterBus(this.effects, Tone.getDestination(), this.tempo.bpmAtStep(0));
+    this.mixer = new Mixer(this.masterBus);
+    this.analyser = new MasterAnalyser();
+    this.isInitialized = true;
+    this.tracks.forEach((_, name) => this.createVoice(name));
     this.setupTempo();
     this.createSequence();
-    
-    this.isInitialized = true;
   }
 
-  private createKickDrum(): void {
-    this.kickVolume = new Tone.Volume(0).toDestination(); // Start unmuted
-    this.kick = new Tone.MembraneSynth({
-      pitchDecay: 0.05,
-      octaves: 4,
-      oscillator: { type: "sine" },
-      envelope: { 
-        attack: 0.001, 
-        decay: 0.4, 
-        sustain: 0.01, 
-        release: 1.4 
-      },
-    }).connect(this.kickVolume);
-  }
-
-  private createSnare(): void {
-    this.snareVolume = new Tone.Volume(-Infinity).toDestination(); // Start muted
-    this.snare = new Tone.NoiseSynth({
-      noise: { type: "pink" },
-      envelope: {
-        attack: 0.001,
-        decay: 0.2,
-        sustain: 0,
-        release: 0.2
-      }
-    }).connect(this.snareVolume);
-  }
-
-  private createBass(): void {
-    this.bassVolume = new Tone.Volume(-Infinity).toDestination(); // Start muted, will be set to -8 dB when introduced
-    this.bass = new Tone.Synth({
-      oscillator: { type: "sawtooth" }, // Changed from sine to sawtooth
-      envelope: { 
-        attack: 0.01,  // Changed from 0.02 to 0.01s
-        decay: 0.1,    // Changed from 0.2 to 0.1s
-        sustain: 0.5,  // Changed from 0.4 to 0.5
-        release: 0.4   // Changed from 0.6 to 0.4s
-      }
-    }).connect(this.bassVolume);
+  private createVoice(name: string): void {
+    const track = this.tracks.get(name);
+    if (!track || !this.mixer || this.voices.has(name)) return;
+
+    const voice = this.instrumentFactory(name, track, this.mixer.addTrack(name, track));
+    this.voices.set(name, voice);
   }
 
-  private createAcid(): void {
-    this.acidVolume = new Tone.Volume(-Infinity).toDestination(); // Start muted, will be set to -10 dB when introduced
-    
-    this.acid = new Tone.MonoSynth({
-      oscillator: { type: "sawtooth" }, // Sawtooth wave as specified
-      envelope: {
-        attack: 0.01,  // As specified
-        decay: 0.2,    // As specified  
-        sustain: 0.3,  // As specified
-        release: 0.2   // As specified
-      },
-      filterEnvelope: {
-        attack: 0.01,      // As specified
-        decay: 0.2,        // As specified
-        sustain: 0.4,      // As specified
-        release: 0.2,      // As specified
-        baseFrequency: 200, // As specified
-        octaves: 3         // As specified
-      },
-      filter: {
-        Q: 6,              // As specified
-        type: "lowpass",   // As specified
-        rolloff: -24       // As specified
+  private cleanupVoice(name: string): void {
+    const voice = this.voices.get(name);
+    if (voice) {
+      voice.dispose();
+      this.voices.delete(name);
+    }
+    this.mixer?.removeTrack(name);
+  }
+
+  // Reset a track's strip to its song levels, dropping automation on them
+  private applyTrackMix(name: string): void {
+    const track = this.tracks.get(name);
+    if (!track) return;
+    this.mixer?.setTrack(name, track);
+  }
+
+  // Write only the levels that moved, so automation on the others keeps running
+  private updateTrackMix(name: string, previous: TrackMix): void {
+    const track = this.tracks.get(name);
+    if (!track) return;
+    this.mixer?.updateTrack(name, mixChanges(previous, track));
+  }
+
+  private setupTempo(): void {
+    Tone.Transport.bpm.value = this.tempo.bpmAtStep(0);
+  }
+
+  // Automate the transport through the tempo map for the rest of the pass, with `fromStep` playing at `time`
+  private scheduleTempoMap(time: number, fromStep = 0): void {
+    if (this.tempo.changes.length === 0) return;
+    const changes = this.tempo.changes.filter(({ step }) => step > fromStep && step < this.songSteps());
+    const passStart = time - this.tempo.timeAtStep(fromStep);
+
+    const bpm = Tone.Transport.bpm;
+    bpm.cancelScheduledValues(time);
+    bpm.setValueAtTime(this.tempo.bpmAtStep(fromStep), time);
+    this.masterBus?.setTempo(this.tempo.bpmAtStep(fromStep), time);
+    changes.forEach(({ step, bpm: value, ramp }) => {
+      const changeTime = passStart + this.tempo.timeAtStep(step);
+      if (ramp) {
+        bpm.linearRampToValueAtTime(value, changeTime);
+      } else {
+        bpm.setValueAtTime(value, changeTime);
       }
-    }).connect(this.acidVolume);
+      this.masterBus?.setTempo(value, changeTime, ramp);
+    });
   }
 
-  private createLead(): void {
-    this.leadVolume = new Tone.Volume(-Infinity).toDestination(); // Start muted, will be set to -12 dB when introduced
-    
-    // Create a polyphonic pad synth for lush lead sounds
-    this.lead = new Tone.PolySynth(Tone.Synth, {
-      oscillator: { 
-        type: "sawtooth" 
-      },
-      envelope: {
-        attack: 0.1,   // Slow attack for pad-like sound
-        decay: 0.3,    // Moderate decay
-        sustain: 0.6,  // Good sustain for pad
-        release: 1.0   // Long release for smooth transitions
+  // Where a lane's values go: the master bus, or a track's voice or channel strip
+  private automationParam({ target, parameter }: AutomationLane): AutomatableParam | undefined {
+    if (target === MASTER_TARGET) {
+      return this.masterBus?.getParam(parameter);
+    }
+    return this.voices.get(target)?.params[parameter] ?? this.mixer?.getParam(target, parameter);
+  }
+
+  // Lay out one pass of every lane from `time`; a master filter lane overrides the sweep
+  private scheduleAutomation(time: number): void {
+    this.automation.forEach((lane) => {
+      const param = this.automationParam(lane);
+      if (param) {
+        scheduleAutomation(param, lane, time, this.tempo, this.songSteps());
       }
-    }).connect(this.leadVolume);
-    
-    // Set polyphony to 8 voices for rich chords
-    this.lead.maxPolyphony = 8;
+    });
   }
 
-  private setupTempo(): void {
-    Tone.Transport.bpm.value = BPM;
+  // Steps in one pass through the song
+  private songSteps(): number {
+    return this.bars * STEPS_PER_BAR;
   }
 
-  private createSequence(): void {
-    const beatPattern = Array.from({ length: this.currentSteps }, (_, i) => i);
-    this.sequence = new Tone.Sequence(
-      this.handleSequenceStep.bind(this),
-      beatPattern,
-      SUBDIVISION
-    );
-    this.sequence.loop = true;
+  // Line the tempo map, master sweep and automation up with `step` playing at `time`
+  private schedulePass(time: number, step: number): void {
+    const passStart = time - this.tempo.timeAtStep(step);
+    this.scheduleTempoMap(time, step);
+    this.masterBus?.startSweep(passStart, this.tempo.timeAtStep(this.songSteps()));
+    this.scheduleAutomation(passStart);
   }
 
-  private handleSequenceStep(time: number, step: number): void {
-    // Trigger kick based on dynamic pattern
-    if (this.kickPattern.includes(step)) {
-      this.triggerKick(time);
-      // Only schedule beat intensity decay on kick hits
-      this.scheduleKickUIUpdates(time);
-    }
-    // Trigger snare based on dynamic pattern
-    if (this.snarePattern.includes(step)) {
-      this.triggerSnare(time);
-    }
-    // Trigger bass based on dynamic pattern
-    const bassIndex = this.bassPattern.indexOf(step);
-    if (bassIndex !== -1) {
-      // Calculate which note to play based on the 4-note repeating pattern
-      const noteIndex = bassIndex % 4;
-      const note = this.bassNotes[noteIndex];
-      this.triggerBass(time, note);
-    }
-    // Trigger acid melody based on dynamic pattern
-    const acidStep = this.acidPattern.find(p => p.step === step);
-    if (acidStep && acidStep.note) {
-      this.triggerAcid(time, acidStep.note);
-    }
-    // Trigger lead pad based on dynamic pattern
-    const leadStep = this.leadPattern.find(p => p.step === step);
-    if (leadStep && leadStep.notes && leadStep.notes.length > 0) {
-      this.triggerLead(time, leadStep.notes);
-    }
-    // Always schedule step change callback for visual step indicator
-    this.scheduleStepUpdate(time, step);
+  private createSequence(): void {
+    this.sequence = new Tone.Loop((time) => {
+      // Queued changes land on the downbeat before anything plays there, which may
+      // also change the song length
+      if (this.nextStep % STEPS_PER_BAR === 0) {
+        this.barsStarted++;
+        this.applyDueChanges(time);
+      }
+      const songSteps = this.songSteps();
+      const step = this.nextStep % songSteps;
+      const loop = this.loopRegion;
+      if (loop && step + 1 === loop.endStep) {
+        this.nextStep = loop.startStep;
+        this.needsResync = true;
+      } else {
+        this.nextStep = (step + 1) % songSteps;
+      }
+      this.handleSequenceStep(time, step);
+    }, SUBDIVISION);
   }
 
-  private triggerKick(time: number): void {
-    this.kick?.triggerAttackRelease(KICK_NOTE, NOTE_DURATION, time);
+  // Apply queued changes whose bar has come, telling the UI once it hears them
+  private applyDueChanges(time: number): void {
+    const due = this.pendingChanges.filter(({ atBar }) => atBar <= this.barsStarted);
+    if (due.length === 0) return;
+
+    this.pendingChanges = this.pendingChanges.filter((change) => !due.includes(change));
+    due.forEach(({ apply }) => apply());
+    this.scheduleEvent(time, "pending", this.getPendingChanges());
   }
 
-  private triggerSnare(time: number): void {
-    this.snare?.triggerAttackRelease(NOTE_DURATION, time);
+  /**
+   * Runs `apply` now, or on the downbeat `quantize` bars ahead while
+   * playing. Changes for the same target replace each other in the queue.
+   */
+  private applyQuantized(label: string, { quantize = 0 }: QuantizeOptions, apply: () => void, track?: string): void {
+    if (!this.isPlaying || quantize <= 0) {
+      apply();
+      return;
+    }
+    this.pendingChanges = this.pendingChanges.filter((change) => change.label !== label || change.track !== track);
+    this.pendingChanges.push({
+      id: this.nextChangeId++,
+      label,
+      track,
+      atBar: this.barsStarted + quantize,
+      apply,
+    });
+    this.events.emit("pending", this.getPendingChanges());
   }
 
-  private triggerBass(time: number, note: string = "C1"): void {
-    this.bass?.triggerAttackRelease(note, NOTE_DURATION, time, 0.9); // 0.9 velocity as specified
+  // Apply everything still queued right away, e.g. when the transport stops
+  private flushPendingChanges(): void {
+    const queued = this.pendingChanges;
+    if (queued.length === 0) return;
+
+    this.pendingChanges = [];
+    queued.forEach(({ apply }) => apply());
+    this.events.emit("pending", []);
   }
 
-  private triggerAcid(time: number, note: string): void {
-    this.acid?.triggerAttackRelease(note, "8n", time, 0.8); // 0.8 velocity as specified
+  // Changes queued to land on an upcoming bar line, oldest first
+  getPendingChanges(): PendingChange[] {
+    return this.pendingChanges.map(({ id, label, track }) => ({ id, label, track }));
   }
 
-  private triggerLead(time: number, notes: string[]): void {
-    // Trigger polyphonic lead pad with chord or single notes
-    this.lead?.triggerAttackRelease(notes, "2n", time, 0.6); // Longer duration for pad, moderate velocity
+  // Drop queued changes without applying them
+  cancelPendingChanges(): void {
+    if (this.pendingChanges.length === 0) return;
+    this.pendingChanges = [];
+    this.events.emit("pending", []);
   }
 
-  private scheduleKickUIUpdates(time: number): void {
-    // Schedule beat intensity decay only on kick hits
+  private handleSequenceStep(time: number, step: number): void {
+    // Restart the master filter sweep on every pass through the song, and after every jump
+    if (step === 0 || this.passIndex < 0) {
+      this.passIndex++;
+    }
+    if (step === 0 || this.needsResync) {
+      this.needsResync = false;
+      this.schedulePass(time, step);
+    }
+    if (step % STEPS_PER_BAR === 0) {
+      const bar = barForStep(step);
+      this.scheduleEvent(time, "bar", { bar });
+      this.updateSection(time, bar);
+    }
+
+    const cycleStep = (this.passIndex * this.songSteps() + step) % this.timelineSteps;
+    const sidechain = this.effects.sidechain;
+    this.stepEvents[cycleStep]?.forEach((event) => {
+      const voice = this.voices.get(event.track);
+      if (!voice) return;
+
+      // Events carry their swing and groove delay relative to the step, and their slide and accent flags
+      voice.trigger(time + event.offset, event.note, event.velocity, event.duration, event);
+      // A source the mixer silences, muted or outside a solo, doesn't duck either
+      const isSource = event.track === (sidechain?.source ?? DEFAULT_SIDECHAIN_SOURCE);
+      if (sidechain && isSource && this.mixer?.isAudible(event.track)) {
+        this.mixer?.duck(time + event.offset, sidechain, event.velocity);
+      }
+      this.scheduleEvent(time + event.offset, "note", {
+        track: event.track,
+        kind: voice.kind,
+        note: event.note,
+        velocity: event.velocity,
+        ghost: event.ghost,
+        step,
+      });
+    });
+    const { bar, beat } = positionForStep(step);
     Tone.Draw.schedule(() => {
-      this.scheduleBeatIntensityDecay();
+      this.heardStep = step;
     }, time);
+    this.scheduleEvent(time, "step", { step, cycleStep, bar, beat });
+  }
+
+  // Compile the current tracks and arrangement into per-step event buckets,
+  // covering as many passes as it takes for every track loop to realign
+  private compileTimeline(): void {
+    const song: TimelineSource = {
+      metadata: {
+        bpm: this.bpm,
+        bars: this.bars,
+        steps: this.currentSteps,
+        tempoMap: this.tempoPoints,
+        patternGeneration: this.patternGeneration,
+      },
+      tracks: Object.fromEntries(this.tracks),
+      arrangement: this.arrangement,
+    };
+    const songSteps = getSongLengthInSteps(song);
+    const passes = Math.max(1, Math.floor(getPolymeterCycle(song, MAX_TIMELINE_STEPS) / songSteps));
+    this.timelineSteps = songSteps * passes;
+
+    this.stepEvents = Array.from({ length: this.timelineSteps }, (): SongEvent[] => []);
+    compileSongToEvents(song, { passes }).forEach((event) => this.stepEvents[event.step].push(event));
+  }
+
+  // Enter the arrangement section covering `bar`, notifying the UI on change
+  private updateSection(time: number, bar: number): void {
+    const found = findSectionForBar(this.arrangement, bar);
+    if (found?.name === this.currentSection?.name) return;
+
+    this.currentSection = found
+      ? { name: found.name, bar, activeTracks: found.section.activeTracks }
+      : null;
+
+    if (this.currentSection) {
+      this.scheduleEvent(time, "section", this.currentSection);
+    }
   }
 
-  private scheduleStepUpdate(time: number, step: number): void {
-    // Schedule step change callback for all steps
+  // Emit on the animation frame closest to when `time` is heard
+  private scheduleEvent<E extends EngineEventName>(time: number, event: E, payload: EngineEventMap[E]): void {
     Tone.Draw.schedule(() => {
-      // For longer sequences, show step position within the current 16-step bar
-      const displayStep = this.currentSteps > 16 ? step % 16 : step;
-      this.onStepCallback?.(displayStep);
+      this.events.emit(event, payload);
     }, time);
   }
 
-  private scheduleBeatIntensityDecay(): void {
-    BEAT_INTENSITY_DECAY.forEach(({ intensity, delay }) => {
-      setTimeout(() => {
-        this.onBeatIntensityCallback?.(intensity);
-      }, delay);
-    });
+  /**
+   * Subscribe to transport events: `step`, `bar`, `section`, `note` (every
+   * track hit), `pending` (queued changes), `play`, `pause` and `stop`.
+   * Returns an unsubscribe function.
+   */
+  on<E extends EngineEventName>(event: E, listener: EngineListener<E>): () => void {
+    return this.events.on(event, listener);
+  }
+
+  off<E extends EngineEventName>(event: E, listener: EngineListener<E>): void {
+    this.events.off(event, listener);
   }
 
   async play(): Promise<void> {
@@ -260,28 +453,104 @@ export class SimpleAudioEngine {
     }
   }
 
+  // Start from the cue point (see seek), or carry on where pause() left off
   private start(): void {
     if (!this.sequence) return;
-    
-    this.sequence.start(0);
+
+    if (!this.isPaused) {
+      this.sequence.start(0);
+    }
     Tone.Transport.start();
     this.isPlaying = true;
+    this.isPaused = false;
+    // Tempo, sweep and automation run on the audio clock, which kept going while stopped or paused
+    this.needsResync = true;
+    this.events.emit("play", undefined);
   }
 
+  // Pause, keeping the position; play() or resume() carries on from it
+  pause(): void {
+    if (!this.isPlaying) return;
+    Tone.Transport.pause();
+    this.isPlaying = false;
+    this.isPaused = true;
+    this.events.emit("pause", undefined);
+  }
+
+  resume(): void {
+    if (!this.isPaused) return;
+    this.start();
+  }
+
+  // Stop and cue back to the start of the loop, or of the song
   stop(): void {
+    const wasRunning = this.isPlaying || this.isPaused;
     this.sequence?.stop();
     Tone.Transport.stop();
     this.isPlaying = false;
+    this.isPaused = false;
+    this.currentSection = null;
+    this.passIndex = -1;
+    this.nextStep = this.loopRegion?.startStep ?? 0;
+    this.heardStep = this.nextStep;
+    this.barsStarted = 0;
+    this.flushPendingChanges();
+    if (wasRunning) {
+      this.events.emit("stop", undefined);
+    }
+  }
+
+  private clampBar(bar: number, min = 1): number {
+    return Math.min(this.bars, Math.max(min, Math.round(bar)));
+  }
+
+  /**
+   * Cue to the downbeat of `bar` (1-based). While playing, the jump happens
+   * on the next 16th; otherwise playback starts there.
+   */
+  seek(bar: number): void {
+    this.nextStep = (this.clampBar(bar) - 1) * STEPS_PER_BAR;
+    this.needsResync = true;
+    // Re-announce the section at the new position
+    this.currentSection = null;
+    if (!this.isPlaying) {
+      this.heardStep = this.nextStep;
+    }
+  }
+
+  // Loop bars startBar to endBar (inclusive) until clearLoop(); playback outside them carries on until it reaches the end
+  setLoop(startBar: number, endBar: number): void {
+    const start = this.clampBar(startBar);
+    const end = this.clampBar(endBar, start);
+    this.loopRegion = { startStep: (start - 1) * STEPS_PER_BAR, endStep: end * STEPS_PER_BAR };
+  }
+
+  clearLoop(): void {
+    this.loopRegion = null;
+  }
+
+  getLoop(): LoopRegion | null {
+    if (!this.loopRegion) return null;
+    return {
+      startBar: barForStep(this.loopRegion.startStep),
+      endBar: this.loopRegion.endStep / STEPS_PER_BAR,
+    };
+  }
+
+  // The step being heard while playing, the last one heard while paused, or where playback will start
+  getPosition(): TransportPosition {
+    return positionForStep(this.heardStep % this.songSteps());
   }
 
   dispose(): void {
     this.stop();
     this.cleanupSequence();
-    this.cleanupKick();
-    this.cleanupSnare();
-    this.cleanupBass();
-    this.cleanupAcid();
-    this.cleanupLead();
+    Array.from(this.voices.keys()).forEach((name) => this.cleanupVoice(name));
+    this.mixer?.dispose();
+    this.mixer = null;
+    this.analyser?.dispose();
+    this.analyser = null;
+    this.cleanupMasterBus();
     this.reset();
   }
 
@@ -292,203 +561,406 @@ export class SimpleAudioEngine {
     }
   }
 
-  private cleanupKick(): void {
-    if (this.kick) {
-      this.kick.dispose();
-      this.kick = null;
-    }
-    if (this.kickVolume) {
-      this.kickVolume.dispose();
-      this.kickVolume = null;
+  private cleanupMasterBus(): void {
+    if (this.masterBus) {
+      this.effects = this.masterBus.getEffects();
+      this.masterBus.dispose();
+      this.masterBus = null;
     }
   }
 
-  private cleanupSnare(): void {
-    if (this.snare) {
-      this.snare.dispose();
-      this.snare = null;
+  private reset(): void {
+    this.isInitialized = false;
+    this.isPlaying = false;
+    this.isPaused = false;
+    this.events.clear();
+  }
+
+  getIsPlaying(): boolean {
+    return this.isPlaying;
+  }
+
+  getIsPaused(): boolean {
+    return this.isPaused;
+  }
+
+  getIsInitialized(): boolean {
+    return this.isInitialized;
+  }
+
+  // Master FFT bins in dB, low to high (empty before initialize)
+  getSpectrum(): Float32Array {
+    return this.analyser?.getSpectrum() ?? new Float32Array(0);
+  }
+
+  // Latest block of master output samples, -1 to 1
+  getWaveform(): Float32Array {
+    return this.analyser?.getWaveform() ?? new Float32Array(0);
+  }
+
+  getMasterLevel(): TrackLevel {
+    return this.analyser?.getLevel() ?? SILENT_LEVEL;
+  }
+
+  // Post-fader RMS and peak for one track, or every track
+  getTrackLevel(name: string): TrackLevel {
+    return this.mixer?.getLevel(name) ?? SILENT_LEVEL;
+  }
+
+  getTrackLevels(): Record<string, TrackLevel> {
+    return this.mixer?.getLevels() ?? {};
+  }
+
+  /**
+   * Load a whole song: length, tempo, groove, tracks, effects and
+   * arrangement. Tracks the song doesn't have are removed.
+   */
+  loadSong(song: SongData): void {
+    const { metadata } = song;
+    this.setSongLength(metadata.bars);
+    this.setSequenceLength(metadata.steps);
+    this.setTempo(metadata.bpm);
+    this.setTempoMap(metadata.tempoMap);
+    this.setPatternGeneration(metadata.patternGeneration);
+    this.setTracks(song.tracks);
+    this.setEffects(song.effects);
+    this.setArrangement(song.arrangement);
+    this.setAutomation(song.automation);
+    // Loop regions belong to the previous song's bars
+    this.clearLoop();
+  }
+
+  /**
+   * Bring the engine in line with an edited song, changing only what moved.
+   * Mixer edits apply right away; pattern, note, synthesis, length and
+   * arrangement changes follow `options.quantize` like their setters.
+   */
+  updateSong(song: SongData, options: QuantizeOptions = {}): void {
+    const { metadata } = song;
+    if (metadata.bars !== this.bars) {
+      this.setSongLength(metadata.bars, options);
     }
-    if (this.snareVolume) {
-      this.snareVolume.dispose();
-      this.snareVolume = null;
+    if (metadata.steps !== this.currentSteps) {
+      this.setSequenceLength(metadata.steps, options);
     }
-  }
+    if (metadata.bpm !== this.bpm) {
+      this.setTempo(metadata.bpm);
+    }
+    if (differs(metadata.tempoMap, this.tempoPoints)) {
+      this.setTempoMap(metadata.tempoMap);
+    }
+    if (differs(metadata.patternGeneration, this.patternGeneration)) {
+      this.setPatternGeneration(metadata.patternGeneration);
+    }
+
+    Array.from(this.tracks.keys())
+      .filter((name) => !(name in song.tracks))
+      .forEach((name) => this.removeTrack(name));
+    Object.entries(song.tracks).forEach(([name, track]) => {
+      const current = this.tracks.get(name);
+      if (current && differs(mixOf(current), mixOf(track))) {
+        this.setTrackMix(name, mixOf(track));
+      }
+      if (!current || playbackDiffers(current, track)) {
+        this.setTrack(name, track, options);
+      }
+    });
 
-  private cleanupBass(): void {
-    if (this.bass) {
-      this.bass.dispose();
-      this.bass = null;
+    if (differs(song.effects, this.effects)) {
+      this.setEffects(song.effects);
+    }
+    if (differs(song.arrangement, this.arrangement)) {
+      this.setArrangement(song.arrangement, options);
     }
-    if (this.bassVolume) {
-      this.bassVolume.dispose();
-      this.bassVolume = null;
+    if (differs(song.automation ?? [], this.automation)) {
+      this.setAutomation(song.automation);
     }
   }
 
-  private cleanupAcid(): void {
-    if (this.acid) {
-      this.acid.dispose();
-      this.acid = null;
-    }
-    if (this.acidVolume) {
-      this.acidVolume.dispose();
-      this.acidVolume = null;
+  // Replace the whole track set: tracks missing from `tracks` are removed
+  setTracks(tracks: Record<string, TrackData>, options: QuantizeOptions = {}): void {
+    this.applyQuantized("tracks", options, () => {
+      Array.from(this.tracks.keys())
+        .filter((name) => !(name in tracks))
+        .forEach((name) => this.removeTrack(name));
+      Object.entries(tracks).forEach(([name, track]) => this.setTrack(name, track));
+    });
+  }
+
+  /**
+   * Add or update a single track, building its voice on first use. A
+   * quantized change to a playing track applies its sound and mix right away;
+   * only the pattern waits for the bar line, so edits made meanwhile survive.
+   */
+  setTrack(name: string, track: TrackData, options: QuantizeOptions = {}): void {
+    const current = this.tracks.get(name);
+    if (!current || !this.isPlaying || !options.quantize) {
+      this.applyQuantized(name, options, () => this.applyTrack(name, track), name);
+      return;
     }
+    this.applyTrack(name, { ...track, ...patternOf(current) });
+    this.applyQuantized(
+      name,
+      options,
+      () => {
+        const live = this.tracks.get(name);
+        this.applyTrack(name, live ? { ...live, ...patternOf(track) } : track);
+      },
+      name
+    );
   }
 
-  private cleanupLead(): void {
-    if (this.lead) {
-      this.lead.dispose();
-      this.lead = null;
+  private applyTrack(name: string, track: TrackData): void {
+    const previous = this.tracks.get(name);
+    this.tracks.set(name, { ...track });
+    this.compileTimeline();
+    if (!this.isInitialized) return;
+
+    const voice = this.voices.get(name);
+    const presetChanged = previous?.preset !== track.preset || differs(previous?.presetData, track.presetData);
+    if (voice && (differs(previous?.sample, track.sample) || presetChanged)) {
+      // Switching presets or samples (or between them and synthesis) needs a new instrument
+      voice.dispose();
+      this.voices.delete(name);
+    } else if (voice && differs(previous?.synthesis, track.synthesis)) {
+      voice.configure(track.synthesis);
     }
-    if (this.leadVolume) {
-      this.leadVolume.dispose();
-      this.leadVolume = null;
+    this.createVoice(name);
+    if (previous) {
+      this.updateTrackMix(name, previous);
     }
   }
 
-  private reset(): void {
-    this.isInitialized = false;
-    this.isPlaying = false;
-    this.onStepCallback = undefined;
-    this.onBeatIntensityCallback = undefined;
+  // Reshape a track's instrument from a synthesis block (see SynthesisSchema)
+  setTrackSynthesis(name: string, synthesis: Synthesis): void {
+    const track = this.tracks.get(name);
+    if (!track) return;
+    this.setTrack(name, { ...track, synthesis });
   }
 
-  getIsPlaying(): boolean {
-    return this.isPlaying;
+  // Play a track through a sound bank preset, or back on its built-in voice with undefined
+  setTrackPreset(name: string, preset: string | undefined): void {
+    const track = this.tracks.get(name);
+    if (!track) return;
+    this.setTrack(name, { ...track, preset, presetData: soundBank.getPresetData(preset) });
   }
 
-  getIsInitialized(): boolean {
-    return this.isInitialized;
+  removeTrack(name: string): void {
+    this.tracks.delete(name);
+    this.cleanupVoice(name);
+    this.compileTimeline();
   }
 
-  setKickPattern(pattern: number[]): void {
-    this.kickPattern = pattern;
-    console.log('Updated kick pattern:', pattern);
+  getTrackNames(): string[] {
+    return Array.from(this.tracks.keys());
   }
 
-  getKickPattern(): number[] {
-    return this.kickPattern;
+  // Set the steps a track triggers on, with optional notes per pattern index
+  setTrackPattern(name: string, pattern: number[], notes?: string[], options: QuantizeOptions = {}): void {
+    this.applyQuantized(name, options, () => {
+      const track = this.tracks.get(name);
+      if (track) {
+        this.applyTrack(name, { ...track, pattern, notes: notes ?? track.notes });
+      } else {
+        this.applyTrack(name, { pattern, notes, muted: false, volume: 0 });
+      }
+      console.log(`Updated ${name} pattern:`, pattern);
+    }, name);
   }
 
-  setSnarePattern(pattern: number[]): void {
-    this.snarePattern = pattern;
-    console.log('Updated snare pattern:', pattern);
+  getTrackPattern(name: string): number[] {
+    return this.tracks.get(name)?.pattern ?? [];
   }
 
-  getSnarePattern(): number[] {
-    return this.snarePattern;
+  setTrackMuted(name: string, muted: boolean): void {
+    this.setTrackMix(name, { muted });
+    console.log(`${name} muted:`, muted);
   }
 
-  setKickMuted(muted: boolean): void {
-    if (this.kickVolume) {
-      this.kickVolume.volume.value = muted ? -Infinity : 0;
-      console.log('Kick muted:', muted);
-    }
+  // Change a track's channel strip: volume (dB), pan, solo, mute and send levels
+  setTrackMix(name: string, mix: Partial<TrackMix>): void {
+    const track = this.tracks.get(name);
+    if (!track) return;
+    const previous = mixOf(track);
+    Object.assign(track, mix);
+    this.updateTrackMix(name, previous);
   }
 
-  setSnareMuted(muted: boolean): void {
-    if (this.snareVolume) {
-      this.snareVolume.volume.value = muted ? -Infinity : 0;
-      console.log('Snare muted:', muted);
-    }
+  // Apply a song's effects section: filter sweep, reverb and delay on the master bus,
+  // sidechain ducking on the mixer
+  setEffects(effects: SongEffects): void {
+    this.effects = {
+      filter: { ...effects.filter },
+      reverb: { ...effects.reverb },
+      ...(effects.delay ? { delay: { ...effects.delay } } : {}),
+    };
+    this.masterBus?.setEffects(effects);
+    this.setSidechain(effects.sidechain);
+    this.resyncSweep();
   }
 
-  setBassPattern(pattern: number[]): void {
-    this.bassPattern = pattern;
-    // When bass pattern is set, also create a note map for the D1-F1-G1 progression
-    // The notes will cycle through [D1, D1, F1, G1] for each step in the pattern
-    console.log('Updated bass pattern:', pattern, 'with D1-F1-G1 note cycling');
+  setFilter(filter: Partial<FilterSettings>): void {
+    this.effects = { ...this.effects, filter: { ...this.effects.filter, ...filter } };
+    this.masterBus?.setFilter(filter);
+    this.resyncSweep();
   }
 
-  getBassPattern(): number[] {
-    return this.bassPattern;
+  // Master automation lanes ride on top of the sweep, so lay both out again from the next step
+  private resyncSweep(): void {
+    if (this.isPlaying) {
+      this.needsResync = true;
+    }
   }
 
-  setBassMuted(muted: boolean): void {
-    if (this.bassVolume) {
-      this.bassVolume.volume.value = muted ? -Infinity : -8; // Return to -8 dB when unmuted
-      console.log('Bass muted:', muted);
-    }
+  setReverb(reverb: Partial<ReverbSettings>): void {
+    this.effects = { ...this.effects, reverb: { ...this.effects.reverb, ...reverb } };
+    this.masterBus?.setReverb(reverb);
+  }
+
+  setDelay(delay: Partial<DelaySettings>): void {
+    this.effects = { ...this.effects, delay: { ...DEFAULT_DELAY, ...this.effects.delay, ...delay } };
+    this.masterBus?.setDelay(delay);
   }
 
-  setAcidPattern(pattern: { step: number; note: string | null }[]): void {
-    this.acidPattern = pattern;
-    console.log('Updated acid pattern:', pattern);
+  // Duck `targets` on every hit of the source track (kick by default); pass undefined to turn it off
+  setSidechain(sidechain?: SidechainSettings): void {
+    this.effects = {
+      ...this.effects,
+      sidechain: sidechain && { ...sidechain, targets: [...sidechain.targets] },
+    };
   }
 
-  // Helper method to convert a simple step pattern to acid melody with D2-F2-G2-A2-C3 notes
-  setAcidPatternFromSteps(steps: number[]): void {
-    const acidNotes = ["D2", "F2", "G2", "A2", "C3"];
-    this.acidPattern = steps.map((step, index) => ({
-      step: step,
-      note: acidNotes[index % acidNotes.length]
-    }));
-    console.log('Created acid melody from steps:', steps, 'with notes:', this.acidPattern);
+  // Current effects in SongData.effects shape, for saving back into the song
+  getEffects(): SongEffects {
+    const { sidechain } = this.effects;
+    const effects = this.masterBus?.getEffects() ?? {
+      filter: { ...this.effects.filter },
+      reverb: { ...this.effects.reverb },
+      ...(this.effects.delay ? { delay: { ...this.effects.delay } } : {}),
+    };
+    return sidechain ? { ...effects, sidechain: { ...sidechain, targets: [...sidechain.targets] } } : effects;
   }
 
-  getAcidPattern(): { step: number; note: string | null }[] {
-    return this.acidPattern;
+  // Sections take effect from the next bar boundary
+  setArrangement(arrangement?: Arrangement, options: QuantizeOptions = {}): void {
+    this.applyQuantized("arrangement", options, () => {
+      this.arrangement = arrangement;
+      this.compileTimeline();
+      console.log('Updated arrangement:', arrangement ? Object.keys(arrangement) : 'none');
+    });
   }
 
-  setAcidMuted(muted: boolean): void {
-    if (this.acidVolume) {
-      this.acidVolume.volume.value = muted ? -Infinity : -10; // Return to -10 dB when unmuted
-      console.log('Acid muted:', muted);
+  /**
+   * Replace the automation lanes, picking them up from the current position
+   * while playing. Parameters only removed lanes moved go back to their song
+   * settings.
+   */
+  setAutomation(lanes: AutomationLane[] = []): void {
+    const previous = this.automation;
+    this.automation = lanes.map((lane) => ({ ...lane, points: lane.points.map((point) => ({ ...point })) }));
+    const removed = previous.filter(
+      (lane) => !lanes.some(({ target, parameter }) => target === lane.target && parameter === lane.parameter)
+    );
+
+    removed.forEach((lane) => {
+      this.automationParam(lane)?.cancelScheduledValues(0);
+      if (lane.target !== MASTER_TARGET) {
+        this.mixer?.resetFilter(lane.target);
+        this.applyTrackMix(lane.target);
+      }
+    });
+    if (removed.some(({ target }) => target === MASTER_TARGET)) {
+      this.masterBus?.setEffects(this.effects);
+    }
+    this.tracks.forEach((track, name) => {
+      if (removed.some(({ target }) => target === name)) {
+        this.voices.get(name)?.configure(track.synthesis);
+      }
+    });
+    if (this.isPlaying) {
+      this.needsResync = true;
     }
   }
 
-  setLeadPattern(pattern: { step: number; notes: string[] }[]): void {
-    this.leadPattern = pattern;
-    console.log('Updated lead pattern:', pattern);
+  getAutomation(): AutomationLane[] {
+    return this.automation.map((lane) => ({ ...lane, points: lane.points.map((point) => ({ ...point })) }));
   }
 
-  getLeadPattern(): { step: number; notes: string[] }[] {
-    return this.leadPattern;
+  getCurrentSection(): SectionInfo | null {
+    return this.currentSection;
+  }
+
+  /**
+   * Change the song tempo (metadata.bpm), optionally ramping over `rampTime`
+   * seconds. Tempo map points keep their own tempos and take over again from
+   * the next pass through the song.
+   */
+  setTempo(bpm: number, rampTime = 0): void {
+    this.bpm = bpm;
+    this.tempo = new TempoMap(bpm, this.tempoPoints);
+    this.compileTimeline();
+    if (!this.isInitialized) return;
+
+    if (rampTime > 0) {
+      Tone.Transport.bpm.rampTo(bpm, rampTime);
+    } else {
+      Tone.Transport.bpm.cancelScheduledValues(Tone.now());
+      Tone.Transport.bpm.value = bpm;
+    }
+    this.masterBus?.setTempo(bpm);
+    console.log(`Updated tempo to ${bpm} BPM`);
   }
 
-  setLeadMuted(muted: boolean): void {
-    if (this.leadVolume) {
-      this.leadVolume.volume.value = muted ? -Infinity : -12; // Return to -12 dB when unmuted
-      console.log('Lead muted:', muted);
+  // Tempo changes over the song (metadata.tempoMap), followed from the next step
+  setTempoMap(points?: TempoPoint[]): void {
+    this.tempoPoints = points;
+    this.tempo = new TempoMap(this.bpm, points);
+    this.compileTimeline();
+    if (!this.isInitialized) return;
+
+    // Drop ramps towards points that may no longer exist and pick up the new map's tempo here
+    Tone.Transport.bpm.cancelScheduledValues(Tone.now());
+    Tone.Transport.bpm.value = this.tempo.bpmAtStep(this.heardStep % this.songSteps());
+    this.masterBus?.setTempo(Tone.Transport.bpm.value);
+    if (this.isPlaying) {
+      this.needsResync = true;
     }
   }
 
+  // Apply swing, humanization and groove template settings from the song
+  setPatternGeneration(patternGeneration?: PatternGeneration): void {
+    this.patternGeneration = patternGeneration;
+    this.compileTimeline();
+  }
+
+  // Tempo the transport is playing right now
+  getTempo(): number {
+    return this.isInitialized ? Tone.Transport.bpm.value : this.bpm;
+  }
 
   // Unmute all tracks for full arrangement playback
   unmuteAllTracks(): void {
     console.log('Unmuting all tracks for full arrangement');
-    this.setKickMuted(false);
-    this.setSnareMuted(false);
-    this.setBassMuted(false);
-    this.setAcidMuted(false);
-    this.setLeadMuted(false);
+    this.tracks.forEach((_, name) => this.setTrackMuted(name, false));
   }
 
-  // Update sequence length and recreate sequence
-  setSequenceLength(steps: number): void {
-    this.currentSteps = steps;
-    
-    // Stop current sequence if playing
-    const wasPlaying = this.isPlaying;
-    if (wasPlaying) {
-      this.stop();
-    }
-    
-    // Dispose and recreate sequence
-    if (this.sequence) {
-      this.sequence.dispose();
-      this.sequence = null;
-    }
-    
-    this.createSequence();
-    
-    // Restart if it was playing
-    if (wasPlaying) {
-      this.start();
-    }
-    
-    console.log(`Updated sequence length to ${steps} steps`);
+  // Change the song length in bars (metadata.bars); playback carries on, wrapping if the new length is shorter
+  setSongLength(bars: number, options: QuantizeOptions = {}): void {
+    this.applyQuantized("bars", options, () => {
+      this.bars = bars;
+      this.nextStep %= this.songSteps();
+      this.compileTimeline();
+      console.log(`Updated song length to ${bars} bars`);
+    });
+  }
+
+  // Change the pattern loop length in steps (metadata.steps); patterns repeat every `steps` across the song
+  setSequenceLength(steps: number, options: QuantizeOptions = {}): void {
+    this.applyQuantized("length", options, () => {
+      this.currentSteps = steps;
+      this.compileTimeline();
+      console.log(`Updated sequence length to ${steps} steps`);
+    });
   }
 
   // Generate melody from wallet address
@@ -93,4 +93,5 @@ export function exportSongAsJSON(song: SongData): string {
   return JSON.stringify(song, null, 2);
 }
 
+export { exportSongAsMidi } from './midiExport';
 export { importSongFromJSON } from './songSchema';
\ No newline at end of file
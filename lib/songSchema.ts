@@ -1,4 +1,8 @@
 import { z } from "zod";
+import { SampleSchema, SoundPresetSchema } from "./soundPresetSchema";
+
+// Sample playback lives with the preset schema, which shares it
+export { SampleSchema };
 
 /**
  * Zod validation schema for BaseDrum song format (basedrum-v1)
@@ -90,6 +94,28 @@ export const SynthesisSchema = z
   })
   .optional();
 
+// Automation breakpoint: a value reached at a step, or at the start of a bar
+export const AutomationPointSchema = z
+  .object({
+    step: z.number().int().min(0).optional(),
+    bar: z.number().int().min(1).optional(),
+    value: z.number(),
+  })
+  .refine((point) => (point.step === undefined) !== (point.bar === undefined), {
+    message: "An automation point needs either a step or a bar",
+  });
+
+// Automation lane schema: one parameter moving over the song
+export const AutomationLaneSchema = z.object({
+  // Track name, or "master" for the master bus
+  target: z.string(),
+  // Parameter name, e.g. "cutoff", "resonance" or "send.reverb" on a track, "reverb.wet" on master
+  parameter: z.string(),
+  // How values move between points; "step" holds each value until the next point
+  curve: z.enum(["linear", "exponential", "step"]).optional(),
+  points: z.array(AutomationPointSchema).min(1),
+});
+
 // Track data validation schema
 export const TrackDataSchema = z.object({
   // Pattern: Array of step numbers where instrument triggers (0-127)
@@ -104,14 +130,53 @@ export const TrackDataSchema = z.object({
   // Ghost notes: Softer hit steps (optional, 0-127 range)
   ghostNotes: z.array(z.number().int().min(0).max(127)).optional(),
 
+  // Gate: Per-step note length in 16th steps (optional, defaults to the instrument's own)
+  gate: z.array(z.number().positive().max(128)).optional(),
+
+  // Tie: Per-step flag holding the note through the next hit instead of playing it (optional, melodic tracks)
+  tie: z.array(z.boolean()).optional(),
+
+  // Slide: Per-step flag gliding from this note into the next one, TB-303 style (optional, melodic tracks)
+  slide: z.array(z.boolean()).optional(),
+
+  // Accent: Per-step flag for harder hits; the acid synth also opens its filter further (optional)
+  accent: z.array(z.boolean()).optional(),
+
+  // Loop length: Steps before this track's pattern repeats (optional, defaults to metadata.steps)
+  // Lets tracks run polymetrically, e.g. a 3-step acid phrase over a 16-step kick
+  length: z.number().int().min(1).max(128).optional(),
+
   // Mute state: Boolean indicating if track is muted
   muted: z.boolean(),
 
   // Volume: Track volume in decibels
   volume: z.number(),
 
+  // Pan: Stereo position from -1 (left) to 1 (right) (optional, defaults to center)
+  pan: z.number().min(-1).max(1).optional(),
+
+  // Solo: When any track is soloed, only soloed tracks are heard (optional)
+  solo: z.boolean().optional(),
+
+  // Sends: Post-fader send levels into the master reverb and delay (optional, 0-1 range)
+  sends: z
+    .object({
+      reverb: z.number().min(0).max(1).optional(),
+      delay: z.number().min(0).max(1).optional(),
+    })
+    .optional(),
+
   // Synthesis: Complete synthesizer parameters (optional, for save/load)
   synthesis: SynthesisSchema,
+
+  // Preset: Sound bank preset id, e.g. "punchy-kick"; replaces the built-in synth, samples and synthesis (optional)
+  preset: z.string().optional(),
+  // The preset's definition, embedded for user presets so the song sounds the same
+  // where that preset was never saved (optional)
+  presetData: SoundPresetSchema.optional(),
+
+  // Sample: Play samples from public/samples instead of synthesizing (optional)
+  sample: SampleSchema.optional(),
 });
 
 // Pattern generation configuration schema (for Sound Lab)
@@ -149,6 +214,17 @@ export const PatternGenerationSchema = z
   })
   .optional();
 
+// Tempo map point: the song reaches `bpm` at the start of `bar`, either
+// jumping there or ramping linearly from the previous point
+export const TempoPointSchema = z.object({
+  bar: z.number().int().min(1),
+  bpm: z
+    .number()
+    .min(60, "BPM must be at least 60")
+    .max(200, "BPM cannot exceed 200"),
+  ramp: z.boolean().optional(),
+});
+
 // Main song data validation schema
 export const SongDataSchema = z.object({
   // Song metadata
@@ -177,6 +253,8 @@ export const SongDataSchema = z.object({
     }),
     // Pattern generation settings (optional, from Sound Lab)
     patternGeneration: PatternGenerationSchema,
+    // Tempo changes over the song (optional); bpm applies until the first point
+    tempoMap: z.array(TempoPointSchema).optional(),
   }),
 
   // Effects chain settings
@@ -192,6 +270,24 @@ export const SongDataSchema = z.object({
       roomSize: z.number().min(0).max(1),
       decay: z.number().min(0).max(10),
     }),
+    // Delay fed by track sends (optional); time is seconds or a note value like "8n."
+    delay: z
+      .object({
+        time: z.union([z.number().min(0).max(2), z.string()]),
+        feedback: z.number().min(0).max(0.95),
+      })
+      .optional(),
+    // Sidechain ducking (optional): each source hit dips the target tracks by depth (0-1),
+    // reaching the dip after attack seconds and recovering over release seconds
+    sidechain: z
+      .object({
+        source: z.string().optional(), // Defaults to "kick"
+        targets: z.array(z.string()),
+        depth: z.number().min(0).max(1),
+        attack: z.number().min(0).max(1),
+        release: z.number().min(0).max(2),
+      })
+      .optional(),
   }),
 
   // Track definitions (record of track name to track data)
@@ -207,11 +303,17 @@ export const SongDataSchema = z.object({
       }),
     )
     .optional(),
+
+  // Automation lanes for synth, mixer and effect parameters (optional)
+  automation: z.array(AutomationLaneSchema).optional(),
 });
 
 // Type exports for TypeScript usage
 export type Synthesis = z.infer<typeof SynthesisSchema>;
+export type SampleConfig = z.infer<typeof SampleSchema>;
 export type PatternGeneration = z.infer<typeof PatternGenerationSchema>;
+export type TempoPoint = z.infer<typeof TempoPointSchema>;
+export type AutomationLane = z.infer<typeof AutomationLaneSchema>;
 export type TrackData = z.infer<typeof TrackDataSchema>;
 export type SongData = z.infer<typeof SongDataSchema>;
 
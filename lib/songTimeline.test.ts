@@ -0,0 +1,135 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { TrackData } from "./songSchema";
+import { compileSongToEvents, getPolymeterCycle, getSongLengthInSteps, type TimelineSource } from "./songTimeline";
+import { TempoMap } from "./tempoMap";
+
+// One 16th at 120 BPM, in seconds
+const STEP = 0.125;
+
+function track(fields: Partial<TrackData> & Pick<TrackData, "pattern">): TrackData {
+  return { muted: false, volume: 0, ...fields };
+}
+
+function song(
+  tracks: Record<string, TrackData>,
+  metadata: Partial<TimelineSource["metadata"]> = {}
+): TimelineSource {
+  return { metadata: { bpm: 120, bars: 1, steps: 16, ...metadata }, tracks };
+}
+
+function assertClose(actual: number, expected: number): void {
+  assert.ok(Math.abs(actual - expected) < 1e-9, `expected ${actual} to be close to ${expected}`);
+}
+
+describe("compileSongToEvents", () => {
+  it("delays off-beat 16ths by the swing amount", () => {
+    const events = compileSongToEvents(song({ hihat: track({ pattern: [0, 1] }) }, { patternGeneration: { swing: 0.5 } }));
+
+    assert.deepEqual(events.map(({ step }) => step), [0, 1]);
+    assertClose(events[0].offset, 0);
+    // Swing 1 delays by two thirds of a step
+    assertClose(events[1].offset, 0.5 * (2 / 3) * STEP);
+    assertClose(events[1].time, STEP + events[1].offset);
+  });
+
+  it("applies groove template timing and velocity", () => {
+    const events = compileSongToEvents(
+      song({ hihat: track({ pattern: [0, 1] }) }, { patternGeneration: { grooveTemplate: "mpc_swing" } })
+    );
+
+    assertClose(events[1].offset, 0.16 * STEP);
+    assertClose(events[0].velocity, 1);
+    assertClose(events[1].velocity, 0.8);
+  });
+
+  it("gives ghost notes the note and reduced velocity of the hit before them", () => {
+    const events = compileSongToEvents(
+      song({
+        bass: track({ pattern: [0, 8], notes: ["C2", "G2"], velocity: [1, 0.5], ghostNotes: [4, 12] }),
+      })
+    );
+    const ghosts = events.filter(({ ghost }) => ghost);
+
+    assert.deepEqual(ghosts.map(({ step, note }) => [step, note]), [[4, "C2"], [12, "G2"]]);
+    assertClose(ghosts[0].velocity, 0.35);
+    assertClose(ghosts[1].velocity, 0.175);
+  });
+
+  it("lets ghost notes before the first hit borrow from the first pattern entry", () => {
+    const events = compileSongToEvents(song({ bass: track({ pattern: [8], notes: ["D2"], ghostNotes: [2] }) }));
+
+    assert.deepEqual(events.map(({ step, note, ghost }) => [step, note, ghost]), [[2, "D2", true], [8, "D2", false]]);
+  });
+
+  it("lets a tied hit swallow the next one and ring through it", () => {
+    const events = compileSongToEvents(
+      song({ acid: track({ pattern: [0, 4, 8], notes: ["C2", "D2", "E2"], tie: [false, true, false] }) })
+    );
+
+    assert.deepEqual(events.map(({ step, note }) => [step, note]), [[0, "C2"], [4, "D2"]]);
+    // From step 4 to the end of the tied hit's gate at step 10
+    assertClose(events[1].duration, 6 * STEP);
+  });
+
+  it("marks the hit after a slide and holds the chain's first note through it", () => {
+    const events = compileSongToEvents(
+      song({ acid: track({ pattern: [0, 4], notes: ["C2", "G2"], slide: [true, false] }) })
+    );
+
+    assert.equal(events[0].slide, undefined);
+    assert.equal(events[1].slide, true);
+    assertClose(events[0].duration, 4 * STEP);
+    assertClose(events[0].slideDuration ?? 0, 6 * STEP);
+  });
+
+  it("ignores ties and slides on drum tracks", () => {
+    const events = compileSongToEvents(song({ kick: track({ pattern: [0, 4], tie: [true, false], slide: [true, false] }) }));
+
+    assert.deepEqual(events.map(({ step, slide }) => [step, slide]), [[0, undefined], [4, undefined]]);
+  });
+
+  it("lets polymetric loops drift across passes instead of resetting", () => {
+    const polymeter = song({ acid: track({ pattern: [0], notes: ["C2"], length: 3 }) });
+
+    assert.equal(getPolymeterCycle(polymeter), 48);
+    const steps = compileSongToEvents(polymeter, { passes: 3 }).map(({ step }) => step);
+    assert.equal(steps.length, 16);
+    // The second pass starts at step 16 but the 3-step loop comes round at 18
+    assert.ok(!steps.includes(16));
+    assert.ok(steps.includes(18));
+  });
+
+  it("follows tempo ramps and replays the tempo map every pass", () => {
+    const ramped = song(
+      { kick: track({ pattern: [0] }) },
+      { bars: 2, tempoMap: [{ bar: 2, bpm: 140, ramp: true }] }
+    );
+    const tempo = new TempoMap(120, ramped.metadata.tempoMap);
+    const events = compileSongToEvents(ramped, { passes: 2 });
+
+    // A linear ramp in time covers its steps at the average tempo
+    assertClose(tempo.timeAtStep(16), (2 * 16 * 15) / (120 + 140));
+    assert.equal(tempo.bpmAtStep(16), 140);
+    assert.ok(tempo.bpmAtStep(8) > 120 && tempo.bpmAtStep(8) < 140);
+    assertClose(events[1].time, tempo.timeAtStep(16));
+    assertClose(events[2].time, tempo.timeAtStep(32));
+    assertClose(events[3].time, tempo.timeAtStep(32) + tempo.timeAtStep(16));
+  });
+
+  it("jumps to tempo points without a ramp", () => {
+    const tempo = new TempoMap(120, [{ bar: 2, bpm: 60 }]);
+
+    assertClose(tempo.timeAtStep(16), 16 * STEP);
+    assertClose(tempo.timeAtStep(32), 16 * STEP + 16 * 0.25);
+  });
+
+  it("loops patterns every metadata.steps across metadata.bars when steps isn't a whole bar", () => {
+    const uneven = song({ kick: track({ pattern: [0] }) }, { bars: 2, steps: 12 });
+
+    assert.equal(getSongLengthInSteps(uneven), 32);
+    assert.equal(getPolymeterCycle(uneven), 96);
+    assert.deepEqual(compileSongToEvents(uneven).map(({ step }) => step), [0, 12, 24]);
+    assert.deepEqual(compileSongToEvents(uneven, { passes: 3 }).map(({ step }) => step).slice(0, 6), [0, 12, 24, 36, 48, 60]);
+  });
+});
@@ -0,0 +1,225 @@
+import { STEPS_PER_BAR, barForStep, findSectionForBar, isTrackActiveInSection } from "./arrangement";
+import { withBassLine } from "./bassLines";
+import { createGroove } from "./grooves";
+import {
+  INSTRUMENT_PROFILES,
+  resolveInstrumentKind,
+  type InstrumentProfile,
+} from "./instrumentKinds";
+import type { SongData, TrackData } from "./songSchema";
+import { TempoMap } from "./tempoMap";
+
+// One note to play, in seconds from the start of the song
+export interface SongEvent {
+  time: number;
+  track: string;
+  // Undefined for unpitched drums
+  note?: string;
+  velocity: number;
+  // Seconds
+  duration: number;
+  // 0-based 16th step the event belongs to, before swing and groove
+  step: number;
+  // Seconds swing and groove moved the event past its step
+  offset: number;
+  ghost: boolean;
+  // Glides from the previous note instead of retriggering (TB-303 slide)
+  slide?: boolean;
+  accent?: boolean;
+  // Seconds a monophonic voice holds this note through the slides that follow it
+  slideDuration?: number;
+}
+
+// How a voice should articulate an event beyond its note, velocity and length
+export type NoteArticulation = Pick<SongEvent, "slide" | "accent" | "slideDuration">;
+
+// The parts of a song that decide what plays when
+export type TimelineSource = Pick<SongData, "tracks" | "arrangement"> & {
+  metadata: Pick<SongData["metadata"], "bpm" | "bars" | "steps" | "patternGeneration" | "tempoMap">;
+};
+
+export interface CompileOptions {
+  // Leave muted tracks out entirely (offline rendering); live playback mutes by volume instead
+  skipMuted?: boolean;
+  // Consecutive passes through the song. Tracks with their own loop length keep
+  // running across passes, so polymeters drift instead of resetting each pass
+  passes?: number;
+}
+
+// Ghost notes play at this fraction of the track's regular velocity
+const GHOST_NOTE_GAIN = 0.35;
+
+// A hit within one pass of a track's pattern
+interface LoopHit {
+  step: number;
+  note?: string;
+  velocity: number;
+  ghost: boolean;
+  // Sounding length in steps
+  length: number;
+  slide?: boolean;
+  accent?: boolean;
+  // Steps from this hit to the end of the slides that follow it
+  slideLength?: number;
+}
+
+// Song length in steps; patterns loop every metadata.steps within it
+export function getSongLengthInSteps(song: TimelineSource): number {
+  return song.metadata.bars * STEPS_PER_BAR;
+}
+
+// Steps a track loops over: its own length for polymeters, otherwise metadata.steps
+export function getTrackLoopLength(track: Pick<TrackData, "length">, song: TimelineSource): number {
+  return track.length ?? song.metadata.steps;
+}
+
+function greatestCommonDivisor(a: number, b: number): number {
+  return b === 0 ? a : greatestCommonDivisor(b, a % b);
+}
+
+/**
+ * Steps until every track loop and the song line up again, e.g. 48 for a
+ * 3-step acid phrase over a 16-step song. Capped at `maxSteps`.
+ */
+export function getPolymeterCycle(song: TimelineSource, maxSteps = Infinity): number {
+  return Object.values(song.tracks).reduce((cycle, track) => {
+    const length = getTrackLoopLength(track, song);
+    return Math.min(maxSteps, (cycle * length) / greatestCommonDivisor(cycle, length));
+  }, getSongLengthInSteps(song));
+}
+
+// Song length in seconds, following the tempo map
+export function getSongDuration(song: TimelineSource): number {
+  return TempoMap.fromMetadata(song.metadata).timeAtStep(getSongLengthInSteps(song));
+}
+
+// Notes are indexed by pattern position, not by step
+function resolveNote(track: TrackData, patternIndex: number): string | undefined {
+  return track.notes?.[patternIndex] || undefined;
+}
+
+/**
+ * Everything a track plays in one pass of its pattern. Ghost notes reuse the
+ * note and velocity of the closest regular hit before them. On melodic
+ * tracks a tied hit swallows the next one and rings on through it, and a
+ * sliding hit lasts until the next one, which glides in. Ties and slides on
+ * the last hit of the pattern have nothing to join and are ignored.
+ */
+function compileLoopHits(profile: InstrumentProfile, track: TrackData): LoopHit[] {
+  const hits: LoopHit[] = [];
+  const regular = new Map<number, { note?: string; velocity: number }>();
+  // Last hit played, the hit its slides started from, and how the previous pattern entry ended
+  let current: LoopHit | undefined;
+  let chainStart: LoopHit | undefined;
+  let joinNext: "tie" | "slide" | undefined;
+
+  const patternOrder = track.pattern.map((step, patternIndex) => ({ step, patternIndex }));
+  patternOrder.sort((a, b) => a.step - b.step);
+  patternOrder.forEach(({ step, patternIndex }) => {
+    const note = resolveNote(track, patternIndex);
+    const velocity = track.velocity?.[patternIndex] ?? profile.defaultVelocity;
+    const length = track.gate?.[patternIndex] ?? profile.gateSteps;
+    regular.set(step, { note, velocity });
+    if (profile.melodic && !note) return;
+
+    if (current && joinNext === "tie") {
+      current.length = step + length - current.step;
+    } else {
+      const hit: LoopHit = { step, note, velocity, ghost: false, length, accent: track.accent?.[patternIndex] };
+      if (current && joinNext === "slide") {
+        hit.slide = true;
+        current.length = step - current.step;
+      } else {
+        chainStart = hit;
+      }
+      hits.push(hit);
+      current = hit;
+    }
+    if (chainStart && chainStart !== current) {
+      chainStart.slideLength = current.step + current.length - chainStart.step;
+    }
+    joinNext = undefined;
+    if (profile.melodic && track.tie?.[patternIndex]) joinNext = "tie";
+    else if (profile.melodic && track.slide?.[patternIndex]) joinNext = "slide";
+  });
+
+  const regularSteps = [...regular.keys()].sort((a, b) => a - b);
+  track.ghostNotes?.forEach((step) => {
+    if (regular.has(step)) return;
+    // Ghosts before the first hit borrow from the first pattern entry
+    const previousStep = regularSteps.filter((regularStep) => regularStep < step).pop() ?? track.pattern[0];
+    const previous = regular.get(previousStep);
+    const note = previous?.note;
+    if (profile.melodic && !note) return;
+    const velocity = (previous?.velocity ?? profile.defaultVelocity) * GHOST_NOTE_GAIN;
+    hits.push({ step, note, velocity, ghost: true, length: profile.gateSteps });
+  });
+
+  return hits;
+}
+
+/**
+ * Compiles a song into every note it plays, sorted by time. Patterns loop
+ * every metadata.steps (or their own `length`) across metadata.bars, once
+ * per pass; bass hits without a note follow generateBassLine; arrangement sections silence
+ * inactive tracks, metadata.tempoMap bends time and
+ * metadata.patternGeneration shapes the groove (see createGroove).
+ * Pure: no Tone.js or Web Audio involved.
+ */
+export function compileSongToEvents(
+  song: TimelineSource,
+  { skipMuted = false, passes = 1 }: CompileOptions = {}
+): SongEvent[] {
+  const { bars, patternGeneration } = song.metadata;
+  const songSteps = getSongLengthInSteps(song);
+  const totalSteps = songSteps * passes;
+  const tempo = TempoMap.fromMetadata(song.metadata);
+  const songDuration = tempo.timeAtStep(songSteps);
+  const groove = createGroove(patternGeneration);
+  // Every pass replays the song's tempo map and arrangement
+  const stepTime = (step: number) => {
+    const pass = Math.floor(step / songSteps);
+    return pass * songDuration + tempo.timeAtStep(step - pass * songSteps);
+  };
+  const sections = Array.from(
+    { length: bars },
+    (_, index) => findSectionForBar(song.arrangement, index + 1)?.section ?? null
+  );
+  const events: SongEvent[] = [];
+
+  Object.entries(song.tracks).forEach(([name, track]) => {
+    if (skipMuted && track.muted) return;
+    const kind = resolveInstrumentKind(name);
+    const profile = INSTRUMENT_PROFILES[kind];
+    const loopLength = getTrackLoopLength(track, song);
+    // Bass tracks saved without notes (older songs, JSON and MIDI imports) play a line in the song's key
+    const source = kind === "bass" ? withBassLine(track, patternGeneration ?? {}) : track;
+    const hits = compileLoopHits(profile, source).filter((hit) => hit.step < loopLength);
+
+    for (let loopStart = 0; loopStart < totalSteps; loopStart += loopLength) {
+      hits.forEach(({ step: loopStep, note, velocity: hitVelocity, ghost, length, slide, accent, slideLength }) => {
+        const step = loopStart + loopStep;
+        if (step >= totalSteps) return;
+        const songStep = step % songSteps;
+        if (!isTrackActiveInSection(sections[barForStep(songStep) - 1], name)) return;
+        const adjustment = groove(name, step, hitVelocity);
+        const offset = adjustment.offset * tempo.stepDurationAt(songStep);
+        events.push({
+          time: stepTime(step) + offset,
+          track: name,
+          note,
+          velocity: adjustment.velocity,
+          duration: stepTime(step + length) - stepTime(step),
+          step,
+          offset,
+          ghost,
+          ...(slide && { slide }),
+          ...(accent && { accent }),
+          ...(slideLength && { slideDuration: stepTime(step + slideLength) - stepTime(step) }),
+        });
+      });
+    }
+  });
+
+  return events.sort((a, b) => a.time - b.time || a.track.localeCompare(b.track));
+}
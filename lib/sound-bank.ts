@@ -1,31 +1,80 @@
 import * as Tone from 'tone';
+import type { InstrumentKind } from './instrumentKinds';
+import { SamplePlayer, resolveSampleUrl } from './samplePlayer';
+import {
+  parsePresetJSON,
+  SoundPresetSchema,
+  validateSoundPreset,
+  type EffectConfig,
+  type PresetCollection,
+  type SoundPreset,
+  type SynthConfig,
+} from './soundPresetSchema';
 
-export interface SynthConfig {
-  type: 'membrane' | 'metal' | 'noise' | 'synth' | 'sample';
-  params: Record<string, any>; // eslint-disable-line @typescript-eslint/no-explicit-any
-  frequency?: string;
-  note?: string;
-  duration?: string;
+export type { EffectConfig, SoundPreset, SynthConfig };
+
+// Local storage key for the presets users save in the browser
+const USER_PRESETS_KEY = 'basedrum-user-presets';
+
+function presetIdFromName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'preset';
 }
 
-export interface EffectConfig {
-  type: string;
-  params: Record<string, any>; // eslint-disable-line @typescript-eslint/no-explicit-any
-  wetness?: number;
+export interface PresetImportResult {
+  imported: SoundPreset[];
+  // Original id to the id a preset was stored under because the original was taken
+  renamed: Record<string, string>;
 }
 
-export interface SoundPreset {
-  id: string;
-  name: string;
-  category: 'kick' | 'snare' | 'hihat' | 'bass' | 'lead' | 'percussion' | 'fx';
-  synth: SynthConfig;
-  effects: EffectConfig[];
-  volume: number;
-  description?: string;
+// Preset categories that suit each instrument family, for per-track preset pickers
+const INSTRUMENT_CATEGORIES: Record<InstrumentKind, SoundPreset['category'][]> = {
+  kick: ['kick'],
+  snare: ['snare'],
+  hihat: ['hihat'],
+  bass: ['bass'],
+  acid: ['bass', 'lead'],
+  lead: ['lead'],
+  perc: ['percussion', 'fx'],
+};
+
+type WetControlled = Tone.ToneAudioNode & { wet: Tone.Signal<'normalRange'> };
+
+// Tone's effects (distortion, reverb, chorus...) have a wet control; filters and compressors don't
+function hasWetControl(node: Tone.ToneAudioNode): node is WetControlled {
+  return 'wet' in node;
+}
+
+/**
+ * Blends a node that has no wet control of its own with the dry signal,
+ * so every preset effect can honour its wetness.
+ */
+class WetDry extends Tone.ToneAudioNode {
+  readonly name: string = 'WetDry';
+  readonly input: Tone.Gain;
+  readonly output: Tone.CrossFade;
+
+  constructor(private readonly effect: Tone.ToneAudioNode, wetness: number) {
+    super();
+    this.input = new Tone.Gain({ context: this.context });
+    this.output = new Tone.CrossFade({ context: this.context, fade: wetness });
+    this.input.fan(this.output.a, this.effect);
+    this.effect.connect(this.output.b);
+  }
+
+  // ToneAudioNode.dispose takes care of input and output
+  dispose(): this {
+    super.dispose();
+    this.effect.dispose();
+    return this;
+  }
 }
 
 export class SoundBank {
   private presets: Map<string, SoundPreset> = new Map();
+  // Ids of presets users saved or imported, as opposed to the built-ins
+  private userPresetIds: Set<string> = new Set();
+  // Sample presets whose files were found (see checkSamplePresets); the rest stay out of preset lists
+  private availableSamplePresets: Set<string> = new Set();
 
   constructor() {
     this.initializeDefaultPresets();
@@ -260,6 +309,98 @@ export class SoundBank {
       effects: [],
       volume: 0.7
     });
+
+    // Samples (files live in public/samples, see the README there)
+    this.addPreset({
+      id: '909-kick-sample',
+      name: '909 Kick (Sample)',
+      category: 'kick',
+      synth: {
+        type: 'sample',
+        params: {},
+        sample: { url: '909/kick.wav' }
+      },
+      effects: [],
+      volume: 0.9
+    });
+
+    this.addPreset({
+      id: '808-kick-sample',
+      name: '808 Kick (Sample)',
+      category: 'kick',
+      synth: {
+        type: 'sample',
+        params: {},
+        sample: { url: '808/kick.wav', end: 1.2 }
+      },
+      effects: [],
+      volume: 0.9
+    });
+
+    this.addPreset({
+      id: '909-clap-sample',
+      name: '909 Clap (Sample)',
+      category: 'snare',
+      synth: {
+        type: 'sample',
+        params: {},
+        sample: { url: '909/clap.wav' }
+      },
+      effects: [],
+      volume: 0.7
+    });
+
+    this.addPreset({
+      id: '909-closed-hat-sample',
+      name: '909 Closed Hat (Sample)',
+      category: 'hihat',
+      synth: {
+        type: 'sample',
+        params: {},
+        sample: { url: '909/closed-hat.wav', chokeGroup: '909-hats' }
+      },
+      effects: [],
+      volume: 0.6
+    });
+
+    this.addPreset({
+      id: '909-open-hat-sample',
+      name: '909 Open Hat (Sample)',
+      category: 'hihat',
+      synth: {
+        type: 'sample',
+        params: {},
+        sample: { url: '909/open-hat.wav', chokeGroup: '909-hats' }
+      },
+      effects: [],
+      volume: 0.5
+    });
+
+    this.addPreset({
+      id: '808-bass-sample',
+      name: '808 Bass (Sample)',
+      category: 'bass',
+      synth: {
+        type: 'sample',
+        params: {},
+        sample: { urls: { C1: '808/bass-c1.wav', C2: '808/bass-c2.wav' } }
+      },
+      effects: [],
+      volume: 0.9
+    });
+
+    this.addPreset({
+      id: 'reverse-crash-sample',
+      name: 'Reverse Crash (Sample)',
+      category: 'fx',
+      synth: {
+        type: 'sample',
+        params: {},
+        sample: { url: '909/crash.wav', reverse: true }
+      },
+      effects: [],
+      volume: 0.5
+    });
   }
 
   addPreset(preset: SoundPreset) {
@@ -271,11 +412,171 @@ export class SoundBank {
   }
 
   getPresetsByCategory(category: SoundPreset['category']): SoundPreset[] {
-    return Array.from(this.presets.values()).filter(p => p.category === category);
+    return this.getAllPresets().filter(p => p.category === category);
   }
 
+  // Every preset that can play; sample presets are listed once their files are found
   getAllPresets(): SoundPreset[] {
-    return Array.from(this.presets.values());
+    return Array.from(this.presets.values()).filter(
+      p => p.synth.type !== 'sample' || this.availableSamplePresets.has(p.id)
+    );
+  }
+
+  /**
+   * Looks for the files of every sample preset under public/samples, listing
+   * the presets whose files all exist. Resolves to their ids.
+   */
+  async checkSamplePresets(): Promise<string[]> {
+    const samplePresets = Array.from(this.presets.values()).filter(p => p.synth.type === 'sample');
+    await Promise.all(samplePresets.map(async preset => {
+      if (preset.synth.type !== 'sample') return;
+      const { url, urls } = preset.synth.sample;
+      const paths = urls ? Object.values(urls) : url ? [url] : [];
+      const found = await Promise.all(paths.map(async path => {
+        try {
+          return (await fetch(resolveSampleUrl(path), { method: 'HEAD' })).ok;
+        } catch {
+          return false;
+        }
+      }));
+      if (found.length > 0 && found.every(Boolean)) {
+        this.availableSamplePresets.add(preset.id);
+      } else {
+        this.availableSamplePresets.delete(preset.id);
+      }
+    }));
+    return Array.from(this.availableSamplePresets);
+  }
+
+  isUserPreset(id: string): boolean {
+    return this.userPresetIds.has(id);
+  }
+
+  getUserPresets(): SoundPreset[] {
+    return Array.from(this.userPresetIds, id => this.presets.get(id)!);
+  }
+
+  // The definition a song embeds (TrackData.presetData) for preset `id`: user presets only, as built-ins ship with BaseDrum
+  getPresetData(id: string | undefined): SoundPreset | undefined {
+    return id && this.isUserPreset(id) ? structuredClone(this.presets.get(id)) : undefined;
+  }
+
+  /**
+   * Tracks with the user presets they play embedded as currently saved, so a
+   * preset re-saved since a song picked it leaves in its new form. Presets
+   * missing from `presets` keep the definition the song brought along.
+   */
+  withPresetData<T extends { preset?: string; presetData?: SoundPreset }>(
+    tracks: Record<string, T>,
+    presets: SoundPreset[] = this.getUserPresets()
+  ): Record<string, T> {
+    return Object.fromEntries(Object.entries(tracks).map(([name, track]) => {
+      const saved = presets.find(preset => preset.id === track.preset);
+      return [name, saved ? { ...track, presetData: structuredClone(saved) } : track];
+    }));
+  }
+
+  /**
+   * Validates and saves a user preset, persisting it to local storage.
+   * Saving under the id of an existing user preset replaces it; an id taken
+   * by a built-in gets a numbered suffix, so built-ins are never overwritten.
+   */
+  saveUserPreset(preset: SoundPreset): SoundPreset {
+    const saved = this.storeUserPreset(validateSoundPreset(preset));
+    this.persistUserPresets();
+    return saved;
+  }
+
+  // Copies an existing preset with changes applied and saves the copy as a new user preset
+  createUserPreset(baseId: string, changes: Partial<SoundPreset> = {}): SoundPreset {
+    const base = this.getPreset(baseId);
+    if (!base) {
+      throw new Error(`Unknown preset '${baseId}'`);
+    }
+    const name = changes.name ?? `${base.name} (Copy)`;
+    const id = this.uniqueId(changes.id ?? presetIdFromName(name));
+    return this.saveUserPreset({ ...structuredClone(base), ...changes, id, name });
+  }
+
+  removeUserPreset(id: string): boolean {
+    if (!this.userPresetIds.delete(id)) return false;
+    this.presets.delete(id);
+    this.persistUserPresets();
+    return true;
+  }
+
+  // Merges presets saved in local storage into the bank, skipping any that no longer validate
+  loadUserPresets(): SoundPreset[] {
+    if (typeof localStorage === 'undefined') return [];
+    const saved = localStorage.getItem(USER_PRESETS_KEY);
+    if (!saved) return [];
+
+    try {
+      const entries: unknown = JSON.parse(saved);
+      if (!Array.isArray(entries)) return [];
+      return entries.flatMap(entry => {
+        const result = SoundPresetSchema.safeParse(entry);
+        if (!result.success) {
+          console.warn('Skipping invalid saved preset:', result.error.issues);
+          return [];
+        }
+        return [this.storeUserPreset(result.data)];
+      });
+    } catch (e) {
+      console.error('Failed to parse saved presets:', e);
+      return [];
+    }
+  }
+
+  // Presets as a basedrum-presets-v1 file, the user presets unless ids are given
+  exportPresets(ids: string[] = Array.from(this.userPresetIds)): string {
+    const collection: PresetCollection = {
+      format: 'basedrum-presets-v1',
+      presets: ids.flatMap(id => this.presets.get(id) ?? []),
+    };
+    return JSON.stringify(collection, null, 2);
+  }
+
+  /**
+   * Imports an exported preset file as user presets. Imports never replace an
+   * existing preset: colliding ids get a numbered suffix, reported in `renamed`.
+   * @throws Error for JSON parsing issues or ZodError for validation issues
+   */
+  importPresets(jsonString: string): PresetImportResult {
+    const presets = parsePresetJSON(jsonString);
+    const renamed: Record<string, string> = {};
+    const imported = presets.map(preset => {
+      const id = this.uniqueId(preset.id);
+      if (id !== preset.id) renamed[preset.id] = id;
+      return this.storeUserPreset({ ...preset, id });
+    });
+    this.persistUserPresets();
+    return { imported, renamed };
+  }
+
+  private storeUserPreset(preset: SoundPreset): SoundPreset {
+    const id = this.presets.has(preset.id) && !this.isUserPreset(preset.id) ? this.uniqueId(preset.id) : preset.id;
+    const stored = { ...preset, id };
+    this.presets.set(id, stored);
+    this.userPresetIds.add(id);
+    return stored;
+  }
+
+  // `id` itself when free, otherwise the first free `id-2`, `id-3`...
+  private uniqueId(id: string): string {
+    if (!this.presets.has(id)) return id;
+    let suffix = 2;
+    while (this.presets.has(`${id}-${suffix}`)) suffix++;
+    return `${id}-${suffix}`;
+  }
+
+  private persistUserPresets() {
+    if (typeof localStorage === 'undefined') return;
+    try {
+      localStorage.setItem(USER_PRESETS_KEY, JSON.stringify(this.getUserPresets()));
+    } catch (e) {
+      console.error('Failed to save user presets:', e);
+    }
   }
 
   getPresetsForRule(ruleId: number): SoundPreset[] {
@@ -297,6 +598,10 @@ export class SoundBank {
     return categories.flatMap(cat => this.getPresetsByCategory(cat));
   }
 
+  getPresetsForInstrument(kind: InstrumentKind): SoundPreset[] {
+    return INSTRUMENT_CATEGORIES[kind].flatMap(cat => this.getPresetsByCategory(cat));
+  }
+
   // Get the default preset for a rule (current behavior)
   getDefaultPresetForRule(ruleId: number): SoundPreset | undefined {
     const presetMap: Record<number, string> = {
@@ -315,7 +620,7 @@ export class SoundBank {
     return this.getPreset(presetMap[ruleId] || 'pulse-kick');
   }
 
-  createSynth(config: SynthConfig): Tone.Synth | Tone.MembraneSynth | Tone.MetalSynth | Tone.NoiseSynth {
+  createSynth(config: SynthConfig): Tone.Synth | Tone.MembraneSynth | Tone.MetalSynth | Tone.NoiseSynth | SamplePlayer {
     switch (config.type) {
       case 'membrane':
         return new Tone.MembraneSynth(config.params);
@@ -325,12 +630,26 @@ export class SoundBank {
         return new Tone.NoiseSynth(config.params);
       case 'synth':
         return new Tone.Synth(config.params);
+      case 'sample':
+        return new SamplePlayer(config.sample);
       default:
         return new Tone.Synth();
     }
   }
 
+  // Builds the effect mixed wetness (default 1, fully wet) against the dry signal
   createEffect(config: EffectConfig): Tone.ToneAudioNode {
+    const effect = this.createEffectNode(config);
+    const wetness = config.wetness ?? 1;
+    if (wetness >= 1) return effect;
+    if (hasWetControl(effect)) {
+      effect.wet.value = wetness;
+      return effect;
+    }
+    return new WetDry(effect, wetness);
+  }
+
+  private createEffectNode(config: EffectConfig): Tone.ToneAudioNode {
     const { type, params } = config;
     
     switch (type) {
@@ -347,11 +666,12 @@ export class SoundBank {
       case 'reverb':
         return new Tone.Reverb(params.roomSize);
       case 'chorus':
-        return new Tone.Chorus(params.frequency, params.delayTime, params.depth);
+        // LFO-driven effects only modulate once started; disposing the voice stops them
+        return new Tone.Chorus(params.frequency, params.delayTime, params.depth).start();
       case 'delay':
         return new Tone.PingPongDelay(params.delayTime, params.feedback);
       case 'autofilter':
-        return new Tone.AutoFilter(params.frequency, params.baseFrequency, params.octaves);
+        return new Tone.AutoFilter(params.frequency, params.baseFrequency, params.octaves).start();
       default:
         return new Tone.Gain(1);
     }
@@ -0,0 +1,62 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ZodError } from "zod";
+import { parsePresetJSON, validateSoundPreset, type SoundPreset } from "./soundPresetSchema";
+
+const PRESET: SoundPreset = {
+  id: "deep-kick",
+  name: "Deep Kick",
+  category: "kick",
+  synth: {
+    type: "membrane",
+    params: { pitchDecay: 0.05, octaves: 6, envelope: { attack: 0.001, decay: 0.4, sustain: 0, release: 0.2 } },
+  },
+  effects: [
+    { type: "filter", params: { frequency: 120, type: "lowpass" }, wetness: 0.5 },
+    { type: "delay", params: { delayTime: "8n", feedback: 0.3 } },
+  ],
+  volume: 0.9,
+};
+
+describe("validateSoundPreset", () => {
+  it("accepts a well-formed preset", () => {
+    assert.deepEqual(validateSoundPreset(PRESET), PRESET);
+  });
+
+  it("rejects synth params that belong to another synth type", () => {
+    assert.throws(
+      () => validateSoundPreset({ ...PRESET, synth: { type: "noise", params: { octaves: 6 } } }),
+      ZodError
+    );
+  });
+
+  it("rejects effect params out of range or unknown to the effect", () => {
+    const withEffect = (effect: unknown) => ({ ...PRESET, effects: [effect] });
+
+    assert.throws(() => validateSoundPreset(withEffect({ type: "distortion", params: { distortion: 2 } })), ZodError);
+    assert.throws(() => validateSoundPreset(withEffect({ type: "reverb", params: { roomSize: 2, decay: 3 } })), ZodError);
+    assert.throws(() => validateSoundPreset(withEffect({ type: "flanger", params: {} })), ZodError);
+  });
+
+  it("needs a sample file for sample presets", () => {
+    const sample = (fields: object) => ({ ...PRESET, synth: { type: "sample", params: {}, sample: fields } });
+
+    assert.doesNotThrow(() => validateSoundPreset(sample({ url: "909/kick.wav" })));
+    assert.doesNotThrow(() => validateSoundPreset(sample({ urls: { C2: "808/bass-c2.wav" } })));
+    assert.throws(() => validateSoundPreset(sample({ rootNote: "C4" })), ZodError);
+  });
+});
+
+describe("parsePresetJSON", () => {
+  it("reads preset collections and single presets", () => {
+    const collection = { format: "basedrum-presets-v1", presets: [PRESET, { ...PRESET, id: "other" }] };
+
+    assert.deepEqual(parsePresetJSON(JSON.stringify(collection)).map(({ id }) => id), ["deep-kick", "other"]);
+    assert.deepEqual(parsePresetJSON(JSON.stringify(PRESET)), [PRESET]);
+  });
+
+  it("reports unreadable JSON and unknown collection formats", () => {
+    assert.throws(() => parsePresetJSON("{"), /^Error: Invalid JSON/);
+    assert.throws(() => parsePresetJSON(JSON.stringify({ format: "other", presets: [] })), ZodError);
+  });
+});
@@ -0,0 +1,213 @@
+import { z } from "zod";
+
+/**
+ * Zod validation schema for SoundBank presets (basedrum-presets-v1)
+ *
+ * Synth and effect params are checked per type, so a preset saved by a user
+ * or imported from a file can be handed straight to Tone.
+ */
+
+// Sample playback schema: files under public/samples played instead of a synth
+export const SampleSchema = z
+  .object({
+    // One-shot: a single file, e.g. "909/kick.wav"
+    url: z.string().min(1).optional(),
+    // Pitched multisample: root note to file, e.g. { C2: "808/bass-c2.wav", C3: "808/bass-c3.wav" }
+    urls: z.record(z.string(), z.string().min(1)).optional(),
+    // Pitch the one-shot was recorded at (defaults to C4)
+    rootNote: z.string().optional(),
+    // Trim points in seconds
+    start: z.number().min(0).optional(),
+    end: z.number().min(0).optional(),
+    reverse: z.boolean().optional(),
+    // Samples in the same choke group cut each other off (e.g. closed and open hats)
+    chokeGroup: z.string().optional(),
+  })
+  .refine((sample) => sample.url !== undefined || Object.keys(sample.urls ?? {}).length > 0, {
+    message: "A sample needs a url or urls",
+  });
+
+// Time values take seconds or Tone notation such as "8n"
+const TimeSchema = z.union([z.number().min(0), z.string().min(1)]);
+const FrequencySchema = z.number().min(20).max(20000);
+
+const EnvelopeSchema = z
+  .object({
+    attack: z.number().min(0).max(10),
+    decay: z.number().min(0).max(10),
+    sustain: z.number().min(0).max(1),
+    release: z.number().min(0).max(10),
+  })
+  .partial();
+
+const OscillatorSchema = z.object({
+  type: z.enum(["sine", "square", "sawtooth", "triangle"]),
+});
+
+// Fields shared by every synth type
+const SynthBaseSchema = z.object({
+  frequency: z.string().optional(),
+  note: z.string().optional(),
+  duration: z.string().optional(),
+});
+
+// Synth configs keyed by type; unknown params are rejected so typos don't go unnoticed
+export const SynthConfigSchema = z.discriminatedUnion("type", [
+  SynthBaseSchema.extend({
+    type: z.literal("membrane"),
+    params: z
+      .object({
+        pitchDecay: z.number().min(0).max(0.5).optional(),
+        octaves: z.number().min(0.5).max(8).optional(),
+        oscillator: OscillatorSchema.optional(),
+        envelope: EnvelopeSchema.optional(),
+      })
+      .strict(),
+  }),
+  SynthBaseSchema.extend({
+    type: z.literal("metal"),
+    params: z
+      .object({
+        envelope: EnvelopeSchema.optional(),
+        harmonicity: z.number().min(0.1).max(20).optional(),
+        modulationIndex: z.number().min(0).max(100).optional(),
+        resonance: FrequencySchema.optional(),
+        octaves: z.number().min(0).max(8).optional(),
+      })
+      .strict(),
+  }),
+  SynthBaseSchema.extend({
+    type: z.literal("noise"),
+    params: z
+      .object({
+        noise: z.object({ type: z.enum(["white", "pink", "brown"]) }).optional(),
+        envelope: EnvelopeSchema.optional(),
+      })
+      .strict(),
+  }),
+  SynthBaseSchema.extend({
+    type: z.literal("synth"),
+    params: z
+      .object({
+        oscillator: OscillatorSchema.optional(),
+        envelope: EnvelopeSchema.optional(),
+      })
+      .strict(),
+  }),
+  SynthBaseSchema.extend({
+    type: z.literal("sample"),
+    params: z.object({}).strict(),
+    // Files under public/samples
+    sample: SampleSchema,
+  }),
+]);
+
+// Mix of the effect against the dry signal, 1 being fully wet
+const WetnessSchema = z.number().min(0).max(1).optional();
+
+const FilterParamsSchema = z
+  .object({
+    frequency: FrequencySchema,
+    type: z.enum(["lowpass", "highpass", "bandpass", "notch", "allpass", "lowshelf", "highshelf", "peaking"]),
+  })
+  .strict();
+
+const DistortionParamsSchema = z.object({ distortion: z.number().min(0).max(1) }).strict();
+
+// Effect configs keyed by type, matching what SoundBank.createEffect builds
+export const EffectConfigSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("filter"), params: FilterParamsSchema, wetness: WetnessSchema }),
+  z.object({ type: z.literal("lowEnd"), params: FilterParamsSchema, wetness: WetnessSchema }),
+  z.object({ type: z.literal("distortion"), params: DistortionParamsSchema, wetness: WetnessSchema }),
+  z.object({ type: z.literal("rumble"), params: DistortionParamsSchema, wetness: WetnessSchema }),
+  z.object({
+    type: z.literal("compressor"),
+    params: z.object({ threshold: z.number().min(-100).max(0), ratio: z.number().min(1).max(20) }).strict(),
+    wetness: WetnessSchema,
+  }),
+  z.object({
+    type: z.literal("reverb"),
+    // Decay time in seconds
+    params: z.object({ roomSize: z.number().min(0.01).max(10) }).strict(),
+    wetness: WetnessSchema,
+  }),
+  z.object({
+    type: z.literal("chorus"),
+    params: z
+      .object({
+        frequency: z.number().min(0).max(20),
+        delayTime: z.number().min(0).max(20),
+        depth: z.number().min(0).max(1),
+      })
+      .strict(),
+    wetness: WetnessSchema,
+  }),
+  z.object({
+    type: z.literal("delay"),
+    params: z.object({ delayTime: TimeSchema, feedback: z.number().min(0).max(0.95) }).strict(),
+    wetness: WetnessSchema,
+  }),
+  z.object({
+    type: z.literal("autofilter"),
+    params: z
+      .object({
+        // LFO rate in Hz or Tone notation
+        frequency: z.union([z.number().min(0).max(20), z.string().min(1)]),
+        baseFrequency: FrequencySchema,
+        octaves: z.number().min(0).max(8),
+      })
+      .strict(),
+    wetness: WetnessSchema,
+  }),
+]);
+
+export const SoundPresetSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  category: z.enum(["kick", "snare", "hihat", "bass", "lead", "percussion", "fx"]),
+  synth: SynthConfigSchema,
+  effects: z.array(EffectConfigSchema),
+  volume: z.number().min(0).max(1),
+  description: z.string().optional(),
+});
+
+// Exported preset files; a single preset on its own is accepted on import too
+export const PresetCollectionSchema = z.object({
+  format: z.literal("basedrum-presets-v1"),
+  presets: z.array(SoundPresetSchema),
+});
+
+// Type exports for TypeScript usage
+export type SynthConfig = z.infer<typeof SynthConfigSchema>;
+export type EffectConfig = z.infer<typeof EffectConfigSchema>;
+export type SoundPreset = z.infer<typeof SoundPresetSchema>;
+export type PresetCollection = z.infer<typeof PresetCollectionSchema>;
+
+/**
+ * Validates a preset against the schema
+ * @param data - Raw data to validate
+ * @returns Validated preset
+ * @throws ZodError if validation fails
+ */
+export function validateSoundPreset(data: unknown): SoundPreset {
+  return SoundPresetSchema.parse(data);
+}
+
+/**
+ * Parses an exported preset file: a preset collection or a single preset
+ * @param jsonString - JSON string to parse and validate
+ * @returns Validated presets, in file order
+ * @throws Error for JSON parsing issues or ZodError for validation issues
+ */
+export function parsePresetJSON(jsonString: string): SoundPreset[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(jsonString);
+  } catch (error) {
+    throw new Error(`Invalid JSON: ${(error as Error).message}`);
+  }
+  if (parsed && typeof parsed === "object" && "format" in parsed) {
+    return PresetCollectionSchema.parse(parsed).presets;
+  }
+  return [validateSoundPreset(parsed)];
+}
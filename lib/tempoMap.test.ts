@@ -0,0 +1,50 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { TempoMap, getStepDuration } from "./tempoMap";
+
+function assertClose(actual: number, expected: number): void {
+  assert.ok(Math.abs(actual - expected) < 1e-9, `expected ${actual} to be close to ${expected}`);
+}
+
+describe("TempoMap", () => {
+  it("plays metadata.bpm throughout with an empty or missing map", () => {
+    [new TempoMap(120), new TempoMap(120, []), TempoMap.fromMetadata({ bpm: 120 })].forEach((tempo) => {
+      assert.deepEqual(tempo.changes, []);
+      assert.equal(tempo.bpmAtStep(0), 120);
+      assert.equal(tempo.bpmAtStep(1000), 120);
+      assertClose(tempo.timeAtStep(32), 32 * getStepDuration(120));
+    });
+  });
+
+  it("lets a point on bar 1 replace metadata.bpm from the first step, ramp or not", () => {
+    [false, true].forEach((ramp) => {
+      const tempo = new TempoMap(120, [{ bar: 1, bpm: 150, ramp }]);
+
+      assert.deepEqual(tempo.changes, [{ step: 0, bpm: 150, ramp }]);
+      assert.equal(tempo.bpmAtStep(0), 150);
+      assertClose(tempo.timeAtStep(16), 16 * getStepDuration(150));
+    });
+  });
+
+  it("sorts points by bar and keeps the last one given for a bar", () => {
+    const tempo = new TempoMap(120, [
+      { bar: 3, bpm: 90 },
+      { bar: 2, bpm: 100 },
+      { bar: 2, bpm: 140 },
+    ]);
+
+    assert.deepEqual(tempo.changes.map(({ step, bpm }) => [step, bpm]), [[16, 140], [32, 90]]);
+    assert.equal(tempo.bpmAtStep(15), 120);
+    assert.equal(tempo.bpmAtStep(16), 140);
+    assertClose(tempo.timeAtStep(48), 16 * (getStepDuration(120) + getStepDuration(140) + getStepDuration(90)));
+  });
+
+  it("measures 16ths at the tempo playing partway through a ramp", () => {
+    const tempo = new TempoMap(100, [{ bar: 2, bpm: 200, ramp: true }]);
+    const bpm = tempo.bpmAtStep(8);
+
+    assert.ok(bpm > 100 && bpm < 200);
+    assertClose(tempo.stepDurationAt(8), getStepDuration(bpm));
+    assertClose(tempo.stepDurationAt(16), getStepDuration(200));
+  });
+});
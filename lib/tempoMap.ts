@@ -0,0 +1,109 @@
+import { STEPS_PER_BAR } from "./arrangement";
+import type { SongData, TempoPoint } from "./songSchema";
+
+// A tempo change on the step grid, as a transport would automate it
+export interface TempoChange {
+  step: number;
+  bpm: number;
+  // Ramp linearly (in time) from the previous tempo instead of jumping
+  ramp: boolean;
+}
+
+// A stretch of steps played at a constant or linearly ramping tempo
+interface TempoSegment {
+  startStep: number;
+  endStep: number;
+  startBpm: number;
+  endBpm: number;
+  startTime: number;
+  // Seconds the segment lasts; Infinity for the open-ended last one
+  duration: number;
+}
+
+const SECONDS_PER_STEP_AT_1_BPM = 15; // 60 seconds / 4 16th notes per beat
+
+export function getStepDuration(bpm: number): number {
+  return SECONDS_PER_STEP_AT_1_BPM / bpm;
+}
+
+/**
+ * Maps steps to seconds for a song whose tempo may change. Starts at
+ * metadata.bpm and follows metadata.tempoMap: each point sets the tempo
+ * reached at the start of its bar, jumping there or ramping linearly in
+ * time from the previous point. Pure, so timelines and exports agree with
+ * what the transport plays.
+ */
+export class TempoMap {
+  readonly changes: TempoChange[];
+  private segments: TempoSegment[] = [];
+
+  constructor(bpm: number, points: TempoPoint[] = []) {
+    // Later points win when two land on the same bar
+    const byStep = new Map<number, TempoChange>();
+    [...points]
+      .sort((a, b) => a.bar - b.bar)
+      .forEach(({ bar, bpm: pointBpm, ramp = false }) => {
+        byStep.set((bar - 1) * STEPS_PER_BAR, { step: (bar - 1) * STEPS_PER_BAR, bpm: pointBpm, ramp });
+      });
+    this.changes = [...byStep.values()];
+
+    let startStep = 0;
+    let startBpm = bpm;
+    let startTime = 0;
+    this.changes.forEach(({ step, bpm: targetBpm, ramp }) => {
+      if (step > startStep) {
+        const endBpm = ramp ? targetBpm : startBpm;
+        const duration = (2 * (step - startStep) * SECONDS_PER_STEP_AT_1_BPM) / (startBpm + endBpm);
+        this.segments.push({ startStep, endStep: step, startBpm, endBpm, startTime, duration });
+        startTime += duration;
+      }
+      startStep = step;
+      startBpm = targetBpm;
+    });
+    this.segments.push({
+      startStep,
+      endStep: Infinity,
+      startBpm,
+      endBpm: startBpm,
+      startTime,
+      duration: Infinity,
+    });
+  }
+
+  static fromMetadata(metadata: Pick<SongData["metadata"], "bpm" | "tempoMap">): TempoMap {
+    return new TempoMap(metadata.bpm, metadata.tempoMap);
+  }
+
+  private segmentAt(step: number): TempoSegment {
+    return this.segments.find((segment) => step < segment.endStep) ?? this.segments[this.segments.length - 1];
+  }
+
+  // Seconds into a segment at which `steps` of it have played
+  private elapsedInSegment(segment: TempoSegment, steps: number): number {
+    if (segment.startBpm === segment.endBpm) {
+      return steps * getStepDuration(segment.startBpm);
+    }
+    // Steps advance with the integral of a linear tempo ramp; solve the quadratic for time
+    const acceleration = (segment.endBpm - segment.startBpm) / (2 * segment.duration);
+    const stepArea = steps * SECONDS_PER_STEP_AT_1_BPM;
+    return (2 * stepArea) / (segment.startBpm + Math.sqrt(segment.startBpm ** 2 + 4 * acceleration * stepArea));
+  }
+
+  // Seconds from the start of the song to the start of `step` (fractional steps allowed)
+  timeAtStep(step: number): number {
+    const segment = this.segmentAt(step);
+    return segment.startTime + this.elapsedInSegment(segment, step - segment.startStep);
+  }
+
+  bpmAtStep(step: number): number {
+    const segment = this.segmentAt(step);
+    if (segment.startBpm === segment.endBpm) return segment.startBpm;
+    const elapsed = this.elapsedInSegment(segment, step - segment.startStep);
+    return segment.startBpm + ((segment.endBpm - segment.startBpm) * elapsed) / segment.duration;
+  }
+
+  // Length of one 16th at `step`, at the tempo playing there
+  stepDurationAt(step: number): number {
+    return getStepDuration(this.bpmAtStep(step));
+  }
+}
@@ -0,0 +1,29 @@
+import type { TrackData } from "./songSchema";
+
+// A melody as generators write it: one note (or rest) per step
+export interface MelodyStep {
+  step: number;
+  note: string | null;
+}
+
+type TrackNotes = Pick<TrackData, "pattern" | "notes">;
+
+/**
+ * Converts a step-by-step melody into TrackData's shape, where notes[i] is
+ * the note played at pattern[i]. Rests are dropped.
+ */
+export function melodyToTrack(melody: MelodyStep[]): TrackNotes {
+  const hits = melody
+    .filter((hit): hit is { step: number; note: string } => Boolean(hit.note))
+    .sort((a, b) => a.step - b.step);
+  return {
+    pattern: hits.map(({ step }) => step),
+    notes: hits.map(({ note }) => note),
+  };
+}
+
+// The note a track plays at `step`, looked up through its pattern
+export function noteAtStep(track: TrackNotes | undefined, step: number): string | undefined {
+  const index = track ? track.pattern.indexOf(step) : -1;
+  return index >= 0 ? track?.notes?.[index] || undefined : undefined;
+}